@@ -1,46 +1,83 @@
 import { Trie } from '@ethereumjs/trie';
-import { Field, FixedSizeArray, U8, U64 } from '@zkpersona/noir-helpers';
+import { Field, U64 } from '@zkpersona/noir-helpers';
 import {
   type GetBlockParameters,
   type Hex,
   type PublicClient,
+  fromRlp,
   hexToBytes,
   keccak256,
 } from 'viem';
-import { leftPad, parseAddress, parseBytes32, rightPad } from './helpers';
+import {
+  type BlockPayload,
+  type ProofPayload,
+  type ProofSizeOpts,
+  type ProofVerifyOpts,
+  encodeExclusionProofInput,
+  encodeProofInput,
+  parseAddress,
+  parseBytes32,
+  parseRpcBlock,
+  parseRpcProof,
+} from './helpers';
+
+export type AccountProofSizeOpts = Partial<ProofSizeOpts>;
 
 export type GetAccountProofOpts = {
   address: Hex;
-} & GetBlockParameters;
+} & AccountProofSizeOpts &
+  ProofVerifyOpts &
+  GetBlockParameters;
+
+export type BuildAccountProofOpts = AccountProofSizeOpts &
+  ProofVerifyOpts & {
+    block: BlockPayload;
+    proof: ProofPayload;
+  };
 
-export const getAccountProof = async <T extends PublicClient>(
-  publicClient: T,
-  opts: GetAccountProofOpts
+// Verifies the account proof against the state root and decodes the roots of the proven
+// account, unlike the fields the RPC reports next to the proof.
+export const verifyAccountProof = async (
+  opts: Pick<BuildAccountProofOpts, 'block' | 'proof'>
 ) => {
-  const { address, ...getBlockOpts } = opts;
-  const block = await publicClient.getBlock(getBlockOpts);
-
-  const res = await publicClient.getProof({
-    address,
-    storageKeys: [],
-    blockNumber: block.number ?? undefined,
-  });
+  const block = parseRpcBlock(opts.block);
+  const { address, accountProof } = parseRpcProof(opts.proof);
 
   const stateTrie = new Trie({ root: hexToBytes(block.stateRoot) });
   const addressHash = keccak256(address, 'bytes');
 
-  const accountProofBuffers = res.accountProof.map((p) => hexToBytes(p));
-
   const accountRlp = await stateTrie.verifyProof(
     stateTrie.root(),
     addressHash,
-    accountProofBuffers
+    accountProof.map((p) => hexToBytes(p))
   );
 
   if (!accountRlp) {
     throw new Error('Account Proof verification failed');
   }
 
+  // [nonce, balance, storageRoot, codeHash]
+  const [, , storageHash, codeHash] = fromRlp(accountRlp, 'hex') as Hex[];
+  if (!storageHash || !codeHash) {
+    throw new Error('Proven account is not a valid account RLP');
+  }
+
+  return { addressHash, accountRlp, storageHash, codeHash };
+};
+
+export const buildAccountProof = async (opts: BuildAccountProofOpts) => {
+  const {
+    maxDepthNoLeaf = 8,
+    maxLeafLength = 148,
+    maxKeyLength = 66,
+    maxValueLength = 110,
+    verify,
+  } = opts;
+  const block = parseRpcBlock(opts.block);
+  const res = parseRpcProof(opts.proof);
+  const { address } = res;
+  const { addressHash, accountRlp } = await verifyAccountProof(opts);
+
   const account = {
     address: parseAddress(address),
     balance: new Field(res.balance),
@@ -49,52 +86,134 @@ export const getAccountProof = async <T extends PublicClient>(
     storage_hash: parseBytes32(res.storageHash),
   };
 
-  const leafNode = res.accountProof.at(-1) ?? '0x0';
-  const nodes = res.accountProof.slice(0, -1);
+  const stateRoot = parseBytes32(block.stateRoot);
+  const proofInput = encodeProofInput({
+    name: 'Account',
+    key: addressHash,
+    value: accountRlp,
+    proof: res.accountProof,
+    root: block.stateRoot,
+    verify,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+  });
 
-  const nodesData = nodes.map((val) => {
-    const items = rightPad(val, 532).map((x) => new U8(x));
-    return new FixedSizeArray(532, items);
+  return {
+    account,
+    account_proof: proofInput,
+    state_root: stateRoot,
+  };
+};
+
+export const getAccountProof = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetAccountProofOpts
+) => {
+  const {
+    address,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
+    ...getBlockOpts
+  } = opts;
+  const block = await publicClient.getBlock(getBlockOpts);
+
+  const proof = await publicClient.getProof({
+    address,
+    storageKeys: [],
+    blockNumber: block.number ?? undefined,
   });
 
-  if (nodesData.length > 8) {
-    throw new Error(
-      'Account Proof can have at most 8 nodes excluding the leaf node'
-    );
-  }
+  return await buildAccountProof({
+    block,
+    proof,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
+  });
+};
 
-  while (nodesData.length !== 8) {
-    nodesData.push(new FixedSizeArray(532, new Array(532).fill(new U8(0))));
-  }
+// Proves that no account exists at `address`, e.g. an address that never received ether.
+export const buildAccountExclusionProof = async (
+  opts: BuildAccountProofOpts
+) => {
+  const {
+    maxDepthNoLeaf = 8,
+    maxLeafLength = 148,
+    maxKeyLength = 66,
+    maxValueLength = 110,
+    verify,
+  } = opts;
+  const block = parseRpcBlock(opts.block);
+  const res = parseRpcProof(opts.proof);
+  const { address } = res;
 
-  const proof = {
-    nodes: new FixedSizeArray(8, nodesData),
-    leaf: new FixedSizeArray(
-      148,
-      rightPad(leafNode, 148).map((x) => new U8(x))
-    ),
-    depth: new U64(res.accountProof.length),
-  };
+  const stateTrie = new Trie({ root: hexToBytes(block.stateRoot) });
+  const addressHash = keccak256(address, 'bytes');
 
-  const stateRoot = parseBytes32(block.stateRoot);
-  const key = new FixedSizeArray(
-    66,
-    leftPad(addressHash, 66).map((x) => new U8(x))
-  );
-  const value = new FixedSizeArray(
-    110,
-    leftPad(accountRlp, 110).map((x) => new U8(x))
+  const accountRlp = await stateTrie.verifyProof(
+    stateTrie.root(),
+    addressHash,
+    res.accountProof.map((p) => hexToBytes(p))
   );
 
-  const proofInput = {
-    key,
-    value,
-    proof,
-  };
+  if (accountRlp) {
+    throw new Error('Account exists, use buildAccountProof to prove its state');
+  }
+
+  const proofInput = encodeExclusionProofInput({
+    name: 'Account',
+    key: addressHash,
+    proof: res.accountProof,
+    root: block.stateRoot,
+    verify,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+  });
 
   return {
-    account,
+    address: parseAddress(address),
     account_proof: proofInput,
-    state_root: stateRoot,
+    state_root: parseBytes32(block.stateRoot),
   };
 };
+
+export const getAccountExclusionProof = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetAccountProofOpts
+) => {
+  const {
+    address,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
+    ...getBlockOpts
+  } = opts;
+  const block = await publicClient.getBlock(getBlockOpts);
+
+  const proof = await publicClient.getProof({
+    address,
+    storageKeys: [],
+    blockNumber: block.number ?? undefined,
+  });
+
+  return await buildAccountExclusionProof({
+    block,
+    proof,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
+  });
+};
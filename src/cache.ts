@@ -0,0 +1,244 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Trie } from '@ethereumjs/trie';
+import {
+  type Hex,
+  type Transport,
+  bytesToHex,
+  createTransport,
+  hexToBigInt,
+  hexToBytes,
+  hexToNumber,
+  size,
+} from 'viem';
+
+// Values are JSON: raw RPC responses and hex encoded trie proofs.
+export type ProofCache = {
+  get: (key: string) => Promise<unknown>;
+  set: (key: string, value: unknown) => Promise<void>;
+};
+
+export type CacheOpts = {
+  // Reuses RPC responses and trie proofs across builder calls.
+  cache?: ProofCache;
+};
+
+export type MemoryCacheOpts = {
+  maxEntries?: number;
+};
+
+export type FileCacheOpts = {
+  directory: string;
+};
+
+export type CacheTransportOpts = {
+  transport: Transport;
+  cache: ProofCache;
+};
+
+// Position of the block parameter, a block tag is never cached.
+export const CACHE_METHODS: Record<string, number> = {
+  eth_getBlockByNumber: 0,
+  eth_getBlockByHash: 0,
+  eth_getBlockReceipts: 0,
+  eth_getProof: 2,
+  eth_getCode: 1,
+};
+
+// Evicts the least recently used entry once `maxEntries` is reached.
+export const createMemoryCache = (opts: MemoryCacheOpts = {}): ProofCache => {
+  const { maxEntries = 1024 } = opts;
+  const entries = new Map<string, unknown>();
+
+  return {
+    get: async (key) => {
+      if (!entries.has(key)) return undefined;
+      const value = entries.get(key);
+      entries.delete(key);
+      entries.set(key, value);
+      return structuredClone(value);
+    },
+    set: async (key, value) => {
+      entries.delete(key);
+      entries.set(key, structuredClone(value));
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+  };
+};
+
+// Stores every entry as a JSON file named after the hash of its key.
+export const createFileCache = (opts: FileCacheOpts): ProofCache => {
+  const { directory } = opts;
+  const toPath = (key: string) =>
+    join(directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    get: async (key) => {
+      const path = toPath(key);
+      if (!existsSync(path)) return undefined;
+      return JSON.parse(readFileSync(path, 'utf8'));
+    },
+    set: async (key, value) => {
+      mkdirSync(directory, { recursive: true });
+      writeFileSync(toPath(key), JSON.stringify(value));
+    },
+  };
+};
+
+export type BlockPin = { blockHash: Hex } | { blockNumber: bigint };
+
+// Block a request is pinned to, by hash (32 bytes) or number, tags like `latest` move.
+export const getBlockPin = (
+  method: string,
+  params: unknown
+): BlockPin | undefined => {
+  const index = CACHE_METHODS[method];
+  const block =
+    index !== undefined && Array.isArray(params) ? params[index] : undefined;
+
+  if (typeof block === 'object' && block !== null) {
+    if ('blockHash' in block) return { blockHash: block.blockHash as Hex };
+    if ('blockNumber' in block) {
+      return { blockNumber: hexToBigInt(block.blockNumber as Hex) };
+    }
+    return undefined;
+  }
+  if (typeof block !== 'string' || !block.startsWith('0x')) return undefined;
+
+  return size(block as Hex) === 32
+    ? { blockHash: block as Hex }
+    : { blockNumber: hexToBigInt(block as Hex) };
+};
+
+// Only requests pinned to a block on a known chain have a key, `cacheTransport`
+// further waits for numbered blocks to be finalized.
+export const getCacheKey = (
+  method: string,
+  params: unknown,
+  chainId: number | undefined
+) => {
+  if (chainId === undefined || !getBlockPin(method, params)) return undefined;
+  return `${chainId}:${method}:${JSON.stringify(params)}`;
+};
+
+export const cacheTransport = (opts: CacheTransportOpts): Transport => {
+  const { cache } = opts;
+
+  return ({ chain }) => {
+    const transport = opts.transport({ chain, retryCount: 0 });
+    let chainId: Promise<number> | undefined;
+    let finalized: bigint | undefined;
+
+    // Without a configured chain, entries are keyed by the chain id the endpoint reports.
+    // A failed request is not memoized, the next one asks again.
+    const getChainId = async () => {
+      if (chain) return chain.id;
+      chainId ??= transport
+        .request({ method: 'eth_chainId' })
+        .then((id) => hexToNumber(id as Hex))
+        .catch((error) => {
+          chainId = undefined;
+          throw error;
+        });
+      return chainId;
+    };
+
+    // A block above the finalized one can still be reorged away, its number may
+    // later point at another block.
+    const isFinalized = async (blockNumber: bigint) => {
+      if (finalized !== undefined && blockNumber <= finalized) return true;
+
+      const block = (await transport
+        .request({
+          method: 'eth_getBlockByNumber',
+          params: ['finalized', false],
+        })
+        .catch(() => null)) as { number: Hex } | null;
+      if (block) finalized = hexToBigInt(block.number);
+
+      return finalized !== undefined && blockNumber <= finalized;
+    };
+
+    const request = async ({
+      method,
+      params,
+    }: { method: string; params?: unknown }) => {
+      if (CACHE_METHODS[method] === undefined) {
+        return transport.request({ method, params });
+      }
+
+      const key = getCacheKey(method, params, await getChainId());
+      const pin = getBlockPin(method, params);
+      if (
+        key === undefined ||
+        (pin && 'blockNumber' in pin && !(await isFinalized(pin.blockNumber)))
+      ) {
+        return transport.request({ method, params });
+      }
+
+      const cached = await cache.get(key);
+      if (cached !== undefined) return cached;
+
+      const result = await transport.request({ method, params });
+      // A missing block may still be produced, it is fetched again next time.
+      if (result !== null) await cache.set(key, result);
+      return result;
+    };
+
+    return createTransport({
+      key: 'cache',
+      name: 'Cache',
+      type: 'cache',
+      request: request as Parameters<typeof createTransport>[0]['request'],
+    });
+  };
+};
+
+// Proofs are keyed by the trie root, so they can never go stale.
+export const getTrieProofCacheKey = (root: Hex, key: Uint8Array) =>
+  `trie:${root}:${bytesToHex(key)}`;
+
+const provesValue = async (
+  root: Hex,
+  key: Uint8Array,
+  value: Uint8Array,
+  proof: Uint8Array[]
+) => {
+  try {
+    const proven = await new Trie().verifyProof(hexToBytes(root), key, proof);
+    return proven !== null && bytesToHex(proven) === bytesToHex(value);
+  } catch {
+    return false;
+  }
+};
+
+// Returns proofs from the cache and only builds the trie, once, on a miss.
+// A cached proof is only used if it proves `value` under `root`, otherwise the
+// trie is built and checked against the root.
+export const createTrieProver = (
+  root: Hex,
+  build: () => Promise<Trie>,
+  cache?: ProofCache
+) => {
+  let trie: Promise<Trie> | undefined;
+
+  return async (key: Uint8Array, value: Uint8Array) => {
+    const cacheKey = getTrieProofCacheKey(root, key);
+    const cached = (await cache?.get(cacheKey)) as Hex[] | undefined;
+    if (cached) {
+      const proof = cached.map((node) => hexToBytes(node));
+      if (await provesValue(root, key, value, proof)) return proof;
+    }
+
+    trie ??= build();
+    const proof = await (await trie).createProof(key);
+    await cache?.set(
+      cacheKey,
+      proof.map((node) => bytesToHex(node))
+    );
+    return proof;
+  };
+};
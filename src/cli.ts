@@ -0,0 +1,320 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  type BlockTag,
+  type GetBlockParameters,
+  type Hex,
+  type PublicClient,
+  createPublicClient,
+  http,
+} from 'viem';
+import { getAccountExclusionProof, getAccountProof } from './account';
+import { type ProofCache, cacheTransport, createFileCache } from './cache';
+import { getAccountCodeProof } from './code';
+import { generateInputTypes } from './codegen';
+import { getBlockHeader } from './header';
+import { toInputMap } from './helpers';
+import { getReceiptProof } from './receipt';
+import { getStorageExclusionProof, getStorageProof } from './storage';
+import { toProverToml } from './toml';
+import { getTransactionProof } from './transaction';
+import { fixtureTransport } from './transport';
+import { getWithdrawalProof } from './withdrawal';
+
+const USAGE = `Usage: noir-ethereum <command> [options]
+
+Commands:
+  header        Block header inputs
+  account       Account proof inputs (--address, optional --exclusion)
+  code          Account code inputs (--address, optional --range, --selector)
+  storage       Storage proof inputs (--address, --slot, optional --exclusion)
+  transaction   Transaction proof inputs (--hash, optional --fields, --sender)
+  receipt       Receipt proof inputs (--hash, optional --log-index)
+  withdrawal    Withdrawal proof inputs (--withdrawal-index)
+  codegen       Input types from compiled circuits (<circuit.json>...)
+
+Source:
+  --rpc-url <url>             JSON-RPC endpoint
+  --fixture <path>            Recorded fixture file, replayed offline
+  --cache-dir <path>          Cache pinned RPC responses and trie proofs on disk
+
+Options:
+  --block <number|tag|hash>   Block to prove against, defaults to latest
+  --chain-id <id>             Header chain, defaults to the source's eth_chainId
+  --max-depth <n>             Max proof depth without the leaf
+  --max-leaf-length <n>       Max leaf node length
+  --max-key-length <n>        Max key length
+  --max-value-length <n>      Max value length
+  --max-data-length <n>       Max transaction data length
+  --max-encoded-length <n>    Max encoded transaction or receipt length
+  --max-header-size <n>       Max block header RLP length
+  --max-logs <n>              Max receipt logs
+  --max-topics <n>            Max log topics
+  --max-log-data-length <n>   Max log data length
+  --max-code-length <n>       Max contract code length
+  --fields                    Add the type-specific transaction fields
+  --sender                    Add the recovered transaction sender
+  --range <offset:length>     Add the code check of a byte range
+  --selector <hex>            Add the code check of a function selector
+  --exclusion                 Prove the account or storage slot is absent
+  --verify                    Replay the circuit merkle checks on the inputs
+  --format <json|toml>        Output format, defaults to json
+  --output <path>             Write to a file instead of stdout
+`;
+
+const options = {
+  'rpc-url': { type: 'string' },
+  fixture: { type: 'string' },
+  'cache-dir': { type: 'string' },
+  block: { type: 'string' },
+  'chain-id': { type: 'string' },
+  address: { type: 'string' },
+  slot: { type: 'string' },
+  hash: { type: 'string' },
+  'log-index': { type: 'string' },
+  'withdrawal-index': { type: 'string' },
+  'max-depth': { type: 'string' },
+  'max-leaf-length': { type: 'string' },
+  'max-key-length': { type: 'string' },
+  'max-value-length': { type: 'string' },
+  'max-data-length': { type: 'string' },
+  'max-encoded-length': { type: 'string' },
+  'max-header-size': { type: 'string' },
+  'max-logs': { type: 'string' },
+  'max-topics': { type: 'string' },
+  'max-log-data-length': { type: 'string' },
+  'max-code-length': { type: 'string' },
+  fields: { type: 'boolean' },
+  sender: { type: 'boolean' },
+  range: { type: 'string' },
+  selector: { type: 'string' },
+  exclusion: { type: 'boolean' },
+  verify: { type: 'boolean' },
+  format: { type: 'string', default: 'json' },
+  output: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliValues = ReturnType<
+  typeof parseArgs<{ options: typeof options }>
+>['values'];
+
+const toNumber = (value: string | undefined, name: string) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got ${value}`);
+  }
+  return number;
+};
+
+const required = (value: string | undefined, name: string) => {
+  if (!value) throw new Error(`--${name} is required`);
+  return value as Hex;
+};
+
+const toCodeRange = (range: string | undefined) => {
+  if (range === undefined) return undefined;
+  const [offset, length, ...rest] = range.split(':');
+  if (rest.length !== 0 || length === undefined) {
+    throw new Error(`--range must be <offset>:<length>, got ${range}`);
+  }
+  return {
+    offset: toNumber(offset, 'range') as number,
+    length: toNumber(length, 'range') as number,
+  };
+};
+
+const toBlockParameters = (block: string | undefined): GetBlockParameters => {
+  if (!block) return {};
+  if (/^0x[0-9a-fA-F]{64}$/.test(block)) return { blockHash: block as Hex };
+  if (/^(0x[0-9a-fA-F]+|\d+)$/.test(block)) {
+    return { blockNumber: BigInt(block) };
+  }
+  return { blockTag: block as BlockTag };
+};
+
+const createClient = (values: CliValues, cache?: ProofCache) => {
+  if (values.fixture) {
+    // Fixtures are replayed offline, there is nothing to cache.
+    if (cache) throw new Error('--cache-dir cannot be used with --fixture');
+    return createPublicClient({
+      transport: fixtureTransport({ path: values.fixture }),
+    }) as PublicClient;
+  }
+  if (values['rpc-url']) {
+    const transport = http(values['rpc-url']);
+    return createPublicClient({
+      transport: cache ? cacheTransport({ transport, cache }) : transport,
+    }) as PublicClient;
+  }
+  throw new Error('Either --rpc-url or --fixture is required');
+};
+
+const generateTypes = (paths: string[]) => {
+  if (paths.length === 0) throw new Error('At least one circuit is required');
+  const circuits = Object.fromEntries(
+    paths.map((path) => [
+      basename(path, '.json'),
+      JSON.parse(readFileSync(path, 'utf8')),
+    ])
+  );
+  return generateInputTypes(circuits);
+};
+
+const buildInputs = (
+  command: string,
+  publicClient: PublicClient,
+  values: CliValues,
+  cache?: ProofCache
+) => {
+  const sizes = {
+    maxDepthNoLeaf: toNumber(values['max-depth'], 'max-depth'),
+    maxLeafLength: toNumber(values['max-leaf-length'], 'max-leaf-length'),
+    verify: values.verify,
+  };
+  const keyValueSizes = {
+    ...sizes,
+    maxKeyLength: toNumber(values['max-key-length'], 'max-key-length'),
+    maxValueLength: toNumber(values['max-value-length'], 'max-value-length'),
+  };
+  const maxEncodedLength = toNumber(
+    values['max-encoded-length'],
+    'max-encoded-length'
+  );
+
+  switch (command) {
+    case 'header':
+      return getBlockHeader(publicClient, {
+        ...toBlockParameters(values.block),
+        chainId: toNumber(values['chain-id'], 'chain-id'),
+        maxHeaderSize: toNumber(values['max-header-size'], 'max-header-size'),
+      });
+    case 'account':
+      return (values.exclusion ? getAccountExclusionProof : getAccountProof)(
+        publicClient,
+        {
+          ...toBlockParameters(values.block),
+          ...keyValueSizes,
+          address: required(values.address, 'address'),
+        }
+      );
+    case 'code':
+      return getAccountCodeProof(publicClient, {
+        ...toBlockParameters(values.block),
+        ...keyValueSizes,
+        address: required(values.address, 'address'),
+        maxCodeLength: toNumber(values['max-code-length'], 'max-code-length'),
+        range: toCodeRange(values.range),
+        selector: values.selector as Hex | undefined,
+      });
+    case 'storage':
+      return (values.exclusion ? getStorageExclusionProof : getStorageProof)(
+        publicClient,
+        {
+          ...toBlockParameters(values.block),
+          ...keyValueSizes,
+          address: required(values.address, 'address'),
+          slot: required(values.slot, 'slot'),
+        }
+      );
+    case 'transaction':
+      return getTransactionProof(publicClient, {
+        ...sizes,
+        hash: required(values.hash, 'hash'),
+        maxDataLength: toNumber(values['max-data-length'], 'max-data-length'),
+        maxEncodedTransactionLength: maxEncodedLength,
+        fields: values.fields,
+        sender: values.sender,
+        cache,
+      });
+    case 'receipt': {
+      const logIndex = toNumber(values['log-index'], 'log-index');
+      return getReceiptProof(publicClient, {
+        ...sizes,
+        hash: required(values.hash, 'hash'),
+        maxEncodedReceiptLength: maxEncodedLength,
+        maxLogs: toNumber(values['max-logs'], 'max-logs'),
+        maxTopics: toNumber(values['max-topics'], 'max-topics'),
+        maxLogDataLength: toNumber(
+          values['max-log-data-length'],
+          'max-log-data-length'
+        ),
+        log: logIndex === undefined ? undefined : { index: logIndex },
+        cache,
+      });
+    }
+    case 'withdrawal': {
+      const withdrawalIndex = toNumber(
+        values['withdrawal-index'],
+        'withdrawal-index'
+      );
+      if (withdrawalIndex === undefined) {
+        throw new Error('--withdrawal-index is required');
+      }
+      return getWithdrawalProof(publicClient, {
+        ...toBlockParameters(values.block),
+        ...sizes,
+        withdrawalIndex,
+        cache,
+      });
+    }
+    default:
+      throw new Error(`Unknown command ${command}\n\n${USAGE}`);
+  }
+};
+
+// Returns the formatted inputs, empty when they were written to `--output`.
+export const runCli = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    options,
+    allowPositionals: true,
+  });
+  const [command, ...paths] = positionals;
+
+  if (values.help) return USAGE;
+  if (!command) throw new Error(USAGE);
+
+  if (values.format !== 'json' && values.format !== 'toml') {
+    throw new Error(`--format must be json or toml, got ${values.format}`);
+  }
+
+  let output: string;
+  if (command === 'codegen') {
+    output = generateTypes(paths);
+  } else {
+    const cache = values['cache-dir']
+      ? createFileCache({ directory: values['cache-dir'] })
+      : undefined;
+    const inputs = await buildInputs(
+      command,
+      createClient(values, cache),
+      values,
+      cache
+    );
+    output =
+      values.format === 'toml'
+        ? toProverToml(inputs)
+        : `${JSON.stringify(toInputMap(inputs))}\n`;
+  }
+
+  if (values.output) {
+    mkdirSync(dirname(values.output), { recursive: true });
+    writeFileSync(values.output, output);
+    return '';
+  }
+  return output;
+};
+
+export const main = async (args = process.argv.slice(2)) => {
+  try {
+    process.stdout.write(await runCli(args));
+  } catch (error) {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n`
+    );
+    process.exitCode = 1;
+  }
+};
@@ -0,0 +1,150 @@
+import { BoundedVec, FixedSizeArray, U8, U32 } from '@zkpersona/noir-helpers';
+import { type Hex, type PublicClient, hexToBytes, keccak256 } from 'viem';
+import {
+  type BuildAccountProofOpts,
+  type GetAccountProofOpts,
+  buildAccountProof,
+  verifyAccountProof,
+} from './account';
+import { findSelectorOffset } from './helpers';
+
+// Matches `MAX_CODE_LENGTH`, EIP-170 limits deployed code to 24576 bytes.
+const MAX_CODE_LENGTH = 24576;
+
+export type CodeRangeOpts = {
+  offset: number;
+  length: number;
+};
+
+export type AccountCodeOpts = {
+  maxCodeLength?: number;
+  // Adds the bytes at `offset` consumed by `assert_code_range`.
+  range?: CodeRangeOpts;
+  maxRangeLength?: number;
+  // Adds the `PUSH1` to `PUSH4` instruction pushing `selector`, consumed by `assert_code_selector`.
+  selector?: Hex;
+};
+
+export type GetAccountCodeProofOpts = GetAccountProofOpts & AccountCodeOpts;
+
+export type BuildAccountCodeProofOpts = BuildAccountProofOpts &
+  AccountCodeOpts & {
+    code: Hex;
+  };
+
+const encodeCodeRange = (
+  code: Uint8Array,
+  range: CodeRangeOpts,
+  maxRangeLength: number
+) => {
+  const { offset, length } = range;
+  if (length > maxRangeLength) {
+    throw new Error(`Code range is longer than ${maxRangeLength} bytes`);
+  }
+  if (offset < 0 || offset + length > code.length) {
+    throw new Error('Code range is out of bounds');
+  }
+
+  const bytes = Array.from(code.slice(offset, offset + length));
+  return {
+    offset: new U32(offset),
+    bytes: new BoundedVec(
+      maxRangeLength,
+      new U8(0),
+      bytes.map((x) => new U8(x))
+    ),
+  };
+};
+
+const encodeCodeSelector = (code: Uint8Array, selector: Hex) => {
+  const offset = findSelectorOffset(code, selector);
+  if (offset === undefined) throw new Error('Selector not found in code');
+
+  return {
+    offset: new U32(offset),
+    selector: new FixedSizeArray(
+      4,
+      Array.from(hexToBytes(selector)).map((x) => new U8(x))
+    ),
+  };
+};
+
+// Proves the account and the code behind its code hash, e.g. the implementation of a contract.
+export const buildAccountCodeProof = async (
+  opts: BuildAccountCodeProofOpts
+) => {
+  const {
+    code,
+    maxCodeLength = MAX_CODE_LENGTH,
+    range,
+    maxRangeLength = 32,
+    selector,
+    ...accountProofOpts
+  } = opts;
+
+  const inputs = await buildAccountProof(accountProofOpts);
+  const { codeHash } = await verifyAccountProof(accountProofOpts);
+  const codeBytes = hexToBytes(code);
+
+  if (codeBytes.length === 0) throw new Error('Account has no code');
+  if (keccak256(codeBytes) !== codeHash) {
+    throw new Error('Code does not match account code hash');
+  }
+  if (codeBytes.length > maxCodeLength) {
+    throw new Error(`Code is longer than ${maxCodeLength} bytes`);
+  }
+
+  return {
+    ...inputs,
+    code: new BoundedVec(
+      maxCodeLength,
+      new U8(0),
+      Array.from(codeBytes).map((x) => new U8(x))
+    ),
+    ...(range && {
+      code_range: encodeCodeRange(codeBytes, range, maxRangeLength),
+    }),
+    ...(selector && { code_selector: encodeCodeSelector(codeBytes, selector) }),
+  };
+};
+
+export const getAccountCodeProof = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetAccountCodeProofOpts
+) => {
+  const {
+    address,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    maxCodeLength,
+    range,
+    maxRangeLength,
+    selector,
+    verify,
+    ...getBlockOpts
+  } = opts;
+  const block = await publicClient.getBlock(getBlockOpts);
+  const blockNumber = block.number ?? undefined;
+
+  const [proof, code] = await Promise.all([
+    publicClient.getProof({ address, storageKeys: [], blockNumber }),
+    publicClient.getCode({ address, blockNumber }),
+  ]);
+
+  return await buildAccountCodeProof({
+    block,
+    proof,
+    code: code ?? '0x',
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    maxCodeLength,
+    range,
+    maxRangeLength,
+    selector,
+    verify,
+  });
+};
@@ -0,0 +1,100 @@
+import type { CompiledCircuit } from '@noir-lang/noir_js';
+
+type AbiType = CompiledCircuit['abi']['parameters'][number]['type'];
+
+const toPascalCase = (name: string) =>
+  name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => `${word[0]?.toUpperCase()}${word.slice(1)}`)
+    .join('');
+
+// Mirrors the values `toCircuitInputs` produces, numbers are serialized as hex strings
+// branded with their ABI type so `MatchesCircuitInputs` can compare them.
+const formatType = (type: AbiType, indent: string): string => {
+  switch (type.kind) {
+    case 'field':
+      return "AbiValue<'field'>";
+    case 'integer':
+      return `AbiValue<'${type.sign === 'signed' ? 'i' : 'u'}${type.width}'>`;
+    case 'string':
+      return "AbiValue<'str'>";
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return `${formatType(type.type, indent)}[]`;
+    case 'tuple':
+      return `[${type.fields.map((f) => formatType(f, indent)).join(', ')}]`;
+    case 'struct':
+      return formatFields(
+        type.fields.map((f) => [f.name, f.type]),
+        indent
+      );
+  }
+};
+
+const formatFields = (fields: [string, AbiType][], indent: string) => {
+  const inner = `${indent}  `;
+  const lines = fields.map(
+    ([name, type]) => `${inner}${name}: ${formatType(type, inner)};`
+  );
+  return `{\n${lines.join('\n')}\n${indent}}`;
+};
+
+const toCamelCase = (name: string) => {
+  const pascal = toPascalCase(name);
+  return `${pascal[0]?.toLowerCase()}${pascal.slice(1)}`;
+};
+
+// Mirrors `CircuitInputShape`, lengths included so `findInputMismatches` can compare
+// the serialized inputs with the circuit.
+const formatShape = (type: AbiType, indent: string): string => {
+  switch (type.kind) {
+    case 'field':
+      return "'field'";
+    case 'integer':
+      return `'${type.sign === 'signed' ? 'i' : 'u'}${type.width}'`;
+    case 'string':
+      return `['str', ${type.length}]`;
+    case 'boolean':
+      return "'bool'";
+    case 'array':
+      return `['array', ${type.length}, ${formatShape(type.type, indent)}]`;
+    case 'tuple':
+      return `['tuple', ${type.fields.map((f) => formatShape(f, indent)).join(', ')}]`;
+    case 'struct':
+      return formatShapeFields(
+        type.fields.map((f) => [f.name, f.type]),
+        indent
+      );
+  }
+};
+
+const formatShapeFields = (fields: [string, AbiType][], indent: string) => {
+  const inner = `${indent}  `;
+  const lines = fields.map(
+    ([name, type]) => `${inner}${name}: ${formatShape(type, inner)},`
+  );
+  return `{\n${lines.join('\n')}\n${indent}}`;
+};
+
+const ABI_VALUE_TYPE =
+  'type AbiValue<T extends string> = string & { readonly __abi?: T };';
+
+// Emits one `<Name>Inputs` type and `<name>InputShape` per circuit, keyed by circuit
+// name (e.g. `verify_account`).
+export const generateInputTypes = (
+  circuits: Record<string, Pick<CompiledCircuit, 'abi'>>
+) => {
+  const types = Object.entries(circuits).map(([name, circuit]) => {
+    const fields = circuit.abi.parameters.map((p): [string, AbiType] => [
+      p.name,
+      p.type,
+    ]);
+    return `export type ${toPascalCase(name)}Inputs = ${formatFields(fields, '')};
+
+export const ${toCamelCase(name)}InputShape = ${formatShapeFields(fields, '')} as const;`;
+  });
+
+  return `// Generated by \`noir-ethereum codegen\`, do not edit.\n\n${ABI_VALUE_TYPE}\n\n${types.join('\n\n')}\n`;
+};
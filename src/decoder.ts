@@ -0,0 +1,167 @@
+import type { CompiledCircuit } from '@noir-lang/noir_js';
+import {
+  Bool,
+  BoundedVec,
+  Field,
+  FixedSizeArray,
+  U1,
+  U8,
+  U32,
+  U64,
+  U128,
+} from '@zkpersona/noir-helpers';
+
+type Abi = CompiledCircuit['abi'];
+type AbiType = Abi['parameters'][number]['type'];
+
+// Builder values, so decoded public inputs compare with the inputs that produced them.
+export type PublicValue =
+  | Field
+  | Bool
+  | U1
+  | U8
+  | U32
+  | U64
+  | U128
+  | bigint
+  | string
+  | FixedSizeArray<PublicValue>
+  | BoundedVec<PublicValue>
+  | PublicValue[]
+  | { [key: string]: PublicValue };
+
+export type DecodedPublicInputs = {
+  parameters: Record<string, PublicValue>;
+  returnValue?: PublicValue;
+};
+
+const BOUNDED_VEC_PATH = 'std::collections::bounded_vec::BoundedVec';
+
+const UNSIGNED_TYPES: Record<number, new (value: bigint) => PublicValue> = {
+  1: U1,
+  8: U8,
+  32: U32,
+  64: U64,
+  128: U128,
+};
+
+const getFieldCount = (type: AbiType): number => {
+  switch (type.kind) {
+    case 'array':
+      return type.length * getFieldCount(type.type);
+    case 'string':
+      return type.length;
+    case 'struct':
+      return type.fields.reduce((sum, f) => sum + getFieldCount(f.type), 0);
+    case 'tuple':
+      return type.fields.reduce((sum, f) => sum + getFieldCount(f), 0);
+    default:
+      return 1;
+  }
+};
+
+// Options decode to their `{ _is_some, _value }` struct, as the builders lay them out.
+const createReader = (publicInputs: string[]) => {
+  let pos = 0;
+
+  const next = () => BigInt(publicInputs[pos++] as string);
+
+  const read = (type: AbiType): PublicValue => {
+    switch (type.kind) {
+      case 'field':
+        return new Field(next());
+      case 'boolean':
+        return new Bool(next() === 1n);
+      case 'integer': {
+        const value = next();
+        const Unsigned = UNSIGNED_TYPES[type.width];
+        if (type.sign === 'unsigned' && Unsigned) return new Unsigned(value);
+        // Integers without a builder type stay bigints, negative values are stored in
+        // two's complement of the integer width.
+        if (type.sign === 'signed' && value >= 1n << BigInt(type.width - 1)) {
+          return value - (1n << BigInt(type.width));
+        }
+        return value;
+      }
+      case 'string':
+        return String.fromCharCode(
+          ...Array.from({ length: type.length }, () => Number(next()))
+        );
+      case 'array':
+        return new FixedSizeArray(
+          type.length,
+          Array.from({ length: type.length }, () => read(type.type))
+        );
+      case 'tuple':
+        return type.fields.map(read);
+      case 'struct': {
+        if (type.path === BOUNDED_VEC_PATH) return readBoundedVec(type);
+        return Object.fromEntries(
+          type.fields.map((f) => [f.name, read(f.type)])
+        );
+      }
+    }
+  };
+
+  const readBoundedVec = (type: Extract<AbiType, { kind: 'struct' }>) => {
+    const [storage, len] = type.fields.map((f) => f.type);
+    if (storage?.kind !== 'array' || len?.kind !== 'integer') {
+      throw new Error(`Invalid bounded vector type ${type.path}`);
+    }
+
+    const items = Array.from({ length: storage.length }, () =>
+      read(storage.type)
+    );
+    const length = Number(next());
+    return new BoundedVec(
+      storage.length,
+      readZero(storage.type),
+      items.slice(0, length)
+    );
+  };
+
+  return read;
+};
+
+// The value a bounded vector pads its storage with.
+const readZero = (type: AbiType) =>
+  createReader(Array(getFieldCount(type)).fill('0x0'))(type);
+
+export const getPublicInputsCount = (abi: Abi) => {
+  const parameters = abi.parameters.filter((p) => p.visibility === 'public');
+  const returnType =
+    abi.return_type?.visibility === 'public' ? abi.return_type.abi_type : null;
+
+  return (
+    parameters.reduce((sum, p) => sum + getFieldCount(p.type), 0) +
+    (returnType ? getFieldCount(returnType) : 0)
+  );
+};
+
+// Public parameters come first in declaration order, followed by the return value.
+export const decodePublicInputs = (
+  circuit: Pick<CompiledCircuit, 'abi'>,
+  publicInputs: string[]
+): DecodedPublicInputs => {
+  const { abi } = circuit;
+  const expected = getPublicInputsCount(abi);
+  if (publicInputs.length !== expected) {
+    throw new Error(
+      `Expected ${expected} public inputs, got ${publicInputs.length}`
+    );
+  }
+
+  const read = createReader(publicInputs);
+  const parameters: Record<string, PublicValue> = {};
+  for (const parameter of abi.parameters) {
+    if (parameter.visibility !== 'public') continue;
+    parameters[parameter.name] = read(parameter.type);
+  }
+
+  const returnValue =
+    abi.return_type?.visibility === 'public'
+      ? read(abi.return_type.abi_type)
+      : undefined;
+
+  return { parameters, returnValue };
+};
@@ -0,0 +1,134 @@
+import {
+  type Abi,
+  type Address,
+  type ContractEventArgs,
+  type ContractEventName,
+  type Hash,
+  type Log,
+  type ParseEventLogsReturnType,
+  type PublicClient,
+  type RpcLog,
+  isAddressEqual,
+  parseEventLogs,
+} from 'viem';
+import {
+  type BuildReceiptProofOpts,
+  type GetReceiptProofOpts,
+  buildReceiptProof,
+  fetchBlockReceipts,
+} from './receipt';
+
+type EventSelectorOpts<
+  abi extends Abi,
+  eventName extends ContractEventName<abi>,
+> = {
+  abi: abi;
+  eventName: eventName;
+  // Contract emitting the event, other contracts may emit the same signature.
+  address?: Address;
+  filter?: Partial<ContractEventArgs<abi, eventName>>;
+};
+
+export type GetEventProofOpts<
+  abi extends Abi,
+  eventName extends ContractEventName<abi>,
+> = Omit<GetReceiptProofOpts, 'hash' | 'log'> &
+  EventSelectorOpts<abi, eventName> & {
+    hash: Hash;
+  };
+
+export type BuildEventProofOpts<
+  abi extends Abi,
+  eventName extends ContractEventName<abi>,
+> = Omit<BuildReceiptProofOpts, 'log'> & EventSelectorOpts<abi, eventName>;
+
+export const findEventLog = <
+  abi extends Abi,
+  eventName extends ContractEventName<abi>,
+>(
+  logs: (Log | RpcLog)[],
+  opts: EventSelectorOpts<abi, eventName>
+) => {
+  const { abi, eventName, address, filter } = opts;
+
+  for (const [index, log] of logs.entries()) {
+    if (address && !isAddressEqual(log.address, address)) continue;
+
+    const [decoded] = parseEventLogs({
+      abi: abi as Abi,
+      eventName: eventName as string,
+      args: filter as Record<string, unknown> | undefined,
+      logs: [log],
+    });
+    if (decoded) {
+      return {
+        index,
+        eventName,
+        args: decoded.args as ParseEventLogsReturnType<
+          abi,
+          eventName,
+          true
+        >[number]['args'],
+      };
+    }
+  }
+
+  throw new Error(`No ${eventName} event in receipt matches the filter`);
+};
+
+export const buildEventProof = async <
+  abi extends Abi,
+  eventName extends ContractEventName<abi>,
+>(
+  opts: BuildEventProofOpts<abi, eventName>
+) => {
+  const { abi, eventName, address, filter, ...receiptProofOpts } = opts;
+  const receipt = opts.receipts[opts.transactionIndex];
+
+  if (!receipt) {
+    throw new Error('Requested Receipt not found.');
+  }
+
+  const event = findEventLog(receipt.logs, {
+    abi,
+    eventName,
+    address,
+    filter,
+  });
+  const inputs = await buildReceiptProof({
+    ...receiptProofOpts,
+    log: { index: event.index },
+  });
+
+  return { inputs, event };
+};
+
+export const getEventProof = async <
+  T extends PublicClient,
+  abi extends Abi,
+  eventName extends ContractEventName<abi>,
+>(
+  publicClient: T,
+  opts: GetEventProofOpts<abi, eventName>
+) => {
+  const { hash, getBlockReceipts, ...eventProofOpts } = opts;
+
+  const receipt = await publicClient.getTransactionReceipt({ hash });
+  if (!receipt.blockNumber) throw new Error('Transaction Receipt not found');
+
+  const block = await publicClient.getBlock({
+    blockNumber: receipt.blockNumber,
+  });
+  const receipts = await fetchBlockReceipts(
+    publicClient,
+    block.number,
+    getBlockReceipts
+  );
+
+  return await buildEventProof({
+    ...eventProofOpts,
+    block,
+    receipts,
+    transactionIndex: receipt.transactionIndex,
+  });
+};
@@ -1,56 +1,83 @@
-import {
-  Bool,
-  BoundedVec,
-  FixedSizeArray,
-  U8,
-  U64,
-} from '@zkpersona/noir-helpers';
+import { Bool, BoundedVec, U8, U64 } from '@zkpersona/noir-helpers';
 
 import {
-  type ByteArray,
   type GetBlockParameters,
   type PublicClient,
+  fromRlp,
   hexToBytes,
-  toBytes,
-  toRlp,
+  zeroHash,
 } from 'viem';
-import { parseByteArray, parseBytes32 } from './helpers';
+import {
+  type BlockPayload,
+  type HeaderBlock,
+  encodeBlockHeader,
+  getHeaderFieldsCount,
+  getHeaderFork,
+  getHeaderForkSchedule,
+  parseByteArray,
+  parseBytes32,
+  parseRpcBlock,
+} from './helpers';
 
-export type GetBlockHeaderOpts = GetBlockParameters;
+type BlockHeaderEncodingOpts = {
+  // Must match the circuit, `BlockHeaderRlp` holds `MAX_HEADER_SIZE` bytes.
+  maxHeaderSize?: number;
+};
 
-export const getBlockHeader = async <T extends PublicClient>(
-  publicClient: T,
-  opts: GetBlockHeaderOpts
+export type GetBlockHeaderOpts = GetBlockParameters &
+  BlockHeaderEncodingOpts & {
+    chainId?: number;
+  };
+
+export type BuildBlockHeaderOpts = BlockHeaderEncodingOpts & {
+  block: BlockPayload;
+  chainId?: number;
+};
+
+export type GetBlockHeaderChainOpts = BlockHeaderEncodingOpts & {
+  chainId?: number;
+  fromBlock: bigint;
+  toBlock?: bigint;
+  maxChainLength?: number;
+};
+
+export type BuildBlockHeaderChainOpts = BlockHeaderEncodingOpts & {
+  blocks: BlockPayload[];
+  chainId?: number;
+  maxChainLength?: number;
+};
+
+export const MAX_HEADER_SIZE = 742;
+
+const DEFAULT_MAX_CHAIN_LENGTH = 8;
+
+const encodeBlockHeaderInputs = (
+  block: HeaderBlock,
+  chainId: number,
+  opts: BlockHeaderEncodingOpts
 ) => {
-  const chainId = new U64(publicClient.chain?.id ?? 1);
-  const block = await publicClient.getBlock(opts);
-
-  const headerData: ByteArray[] = [
-    hexToBytes(block.parentHash),
-    hexToBytes(block.sha3Uncles),
-    hexToBytes(block.miner),
-    hexToBytes(block.stateRoot),
-    hexToBytes(block.transactionsRoot),
-    hexToBytes(block.receiptsRoot),
-    hexToBytes(block.logsBloom ?? '0x0'),
-    block.difficulty === 0n ? new Uint8Array(0) : toBytes(block.difficulty),
-    toBytes(block.number ?? 0n),
-    toBytes(block.gasLimit),
-    toBytes(block.gasUsed),
-    toBytes(block.timestamp),
-    hexToBytes(block.extraData),
-    hexToBytes(block.mixHash),
-    hexToBytes(block.nonce ?? '0x0'),
-    block.baseFeePerGas ? toBytes(block.baseFeePerGas) : undefined,
-    block.withdrawalsRoot ? hexToBytes(block.withdrawalsRoot) : undefined,
-    block.blobGasUsed ? toBytes(block.blobGasUsed) : undefined,
-    block.excessBlobGas ? toBytes(block.excessBlobGas) : undefined,
-    block.parentBeaconBlockRoot
-      ? hexToBytes(block.parentBeaconBlockRoot)
-      : undefined,
-  ].filter((x) => x !== undefined);
-
-  const headerRlp = toRlp(headerData);
+  const { maxHeaderSize = MAX_HEADER_SIZE } = opts;
+  const fork = getHeaderFork(block, getHeaderForkSchedule(chainId));
+  const headerRlp = encodeBlockHeader(block, fork);
+  const headerLength = hexToBytes(headerRlp).length;
+  const fieldsCount = BigInt(fromRlp(headerRlp).length);
+  const expectedFieldsCount = getHeaderFieldsCount(
+    BigInt(chainId),
+    block.number ?? 0n
+  );
+
+  // The circuit infers the header layout from the block number alone.
+  if (fieldsCount !== expectedFieldsCount) {
+    throw new Error(
+      `Block ${block.number} header has ${fieldsCount} fields, the circuit expects ${expectedFieldsCount} on chain ${chainId}`
+    );
+  }
+
+  if (headerLength > maxHeaderSize) {
+    throw new Error(
+      `Block header length (${headerLength}) exceeds max header size (${maxHeaderSize})`
+    );
+  }
 
   const header = {
     number: new U64(block.number ?? 0n),
@@ -63,12 +90,148 @@ export const getBlockHeader = async <T extends PublicClient>(
           _is_some: new Bool(true),
           _value: parseBytes32(block.withdrawalsRoot),
         }
-      : { _is_some: new Bool(false), _value: new FixedSizeArray(0, []) },
+      : { _is_some: new Bool(false), _value: parseBytes32(zeroHash) },
   };
 
   return {
-    chain_id: chainId,
     block_header_partial: header,
-    block_header_rlp: new BoundedVec(709, new U8(0), parseByteArray(headerRlp)),
+    block_header_rlp: new BoundedVec(
+      maxHeaderSize,
+      new U8(0),
+      parseByteArray(headerRlp)
+    ),
+  };
+};
+
+const emptyBlockHeaderInputs = (maxHeaderSize: number) => ({
+  block_header_partial: {
+    number: new U64(0),
+    hash: parseBytes32(zeroHash),
+    state_root: parseBytes32(zeroHash),
+    transactions_root: parseBytes32(zeroHash),
+    receipts_root: parseBytes32(zeroHash),
+    withdrawals_root: {
+      _is_some: new Bool(false),
+      _value: parseBytes32(zeroHash),
+    },
+  },
+  block_header_rlp: new BoundedVec(maxHeaderSize, new U8(0), []),
+});
+
+export const buildBlockHeader = (opts: BuildBlockHeaderOpts) => {
+  const { chainId = 1 } = opts;
+  const block = parseRpcBlock<HeaderBlock>(opts.block);
+
+  return {
+    chain_id: new U64(chainId),
+    ...encodeBlockHeaderInputs(block, chainId, opts),
+  };
+};
+
+// Blocks are ordered from oldest to newest, the last one being the trusted block.
+export const buildBlockHeaderChain = (opts: BuildBlockHeaderChainOpts) => {
+  const {
+    chainId = 1,
+    maxChainLength = DEFAULT_MAX_CHAIN_LENGTH,
+    maxHeaderSize = MAX_HEADER_SIZE,
+  } = opts;
+  const blocks = opts.blocks.map((block) => parseRpcBlock<HeaderBlock>(block));
+
+  if (blocks.length === 0) {
+    throw new Error('At least one block header is required');
+  }
+
+  if (blocks.length > maxChainLength) {
+    throw new Error(
+      `Header chain length (${blocks.length}) exceeds max chain length (${maxChainLength})`
+    );
+  }
+
+  for (const [i, block] of blocks.entries()) {
+    const parent = blocks[i - 1];
+    if (!parent) continue;
+
+    if (block.number !== (parent.number ?? 0n) + 1n) {
+      throw new Error(
+        `Block ${block.number} does not follow block ${parent.number}`
+      );
+    }
+    if (block.parentHash !== parent.hash) {
+      throw new Error(
+        `Block ${block.number} parent hash (${block.parentHash}) does not match block ${parent.number} hash (${parent.hash})`
+      );
+    }
+  }
+
+  const headers = blocks.map((block) =>
+    encodeBlockHeaderInputs(block, chainId, opts)
+  );
+  while (headers.length !== maxChainLength) {
+    headers.push(emptyBlockHeaderInputs(maxHeaderSize));
+  }
+
+  return {
+    chain_id: new U64(chainId),
+    chain_length: new U64(blocks.length),
+    block_header_partials: headers.map((h) => h.block_header_partial),
+    block_header_rlps: headers.map((h) => h.block_header_rlp),
   };
 };
+
+// Header fields depend on the chain's forks, without a chain on the client it
+// is the one the endpoint reports.
+const resolveChainId = async (publicClient: PublicClient, chainId?: number) =>
+  chainId ?? publicClient.chain?.id ?? (await publicClient.getChainId());
+
+export const getBlockHeader = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetBlockHeaderOpts
+) => {
+  const { chainId, maxHeaderSize, ...getBlockOpts } = opts;
+  const block = await publicClient.getBlock(getBlockOpts);
+
+  return buildBlockHeader({
+    block,
+    chainId: await resolveChainId(publicClient, chainId),
+    maxHeaderSize,
+  });
+};
+
+export const getBlockHeaderChain = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetBlockHeaderChainOpts
+) => {
+  const {
+    chainId,
+    fromBlock,
+    maxChainLength = DEFAULT_MAX_CHAIN_LENGTH,
+    maxHeaderSize,
+  } = opts;
+  const toBlock = opts.toBlock ?? (await publicClient.getBlockNumber());
+
+  if (toBlock < fromBlock) {
+    throw new Error(
+      `Header chain end (${toBlock}) is lower than its start (${fromBlock})`
+    );
+  }
+
+  const length = Number(toBlock - fromBlock) + 1;
+  if (length > maxChainLength) {
+    throw new Error(
+      `Header chain length (${length}) exceeds max chain length (${maxChainLength})`
+    );
+  }
+
+  const blocks = await Promise.all(
+    Array.from({ length }, (_, i) =>
+      publicClient.getBlock({ blockNumber: fromBlock + BigInt(i) })
+    )
+  );
+
+  return buildBlockHeaderChain({
+    blocks,
+    chainId: await resolveChainId(publicClient, chainId),
+    maxChainLength,
+    maxHeaderSize,
+  });
+};
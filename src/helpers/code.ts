@@ -0,0 +1,60 @@
+import { type Hex, hexToBytes } from 'viem';
+import { bytesEqual } from './mpt';
+
+const PUSH1_OPCODE = 0x60;
+const PUSH4_OPCODE = 0x63;
+const PUSH32_OPCODE = 0x7f;
+
+// An opcode byte followed by the data of `PUSH1` to `PUSH32`.
+const getInstructionLength = (opcode: number) =>
+  opcode >= PUSH1_OPCODE && opcode <= PUSH32_OPCODE
+    ? opcode - PUSH1_OPCODE + 2
+    : 1;
+
+// Mirrors `assert_code_selector`, an offset inside push data is not an instruction.
+export const isInstructionStart = (code: ArrayLike<number>, offset: number) => {
+  let next = 0;
+  while (next < offset) {
+    next += getInstructionLength(code[next] ?? 0);
+  }
+  return next === offset;
+};
+
+// `PUSH1` to `PUSH4` can push a selector, compilers drop its leading zero bytes (e.g. `PUSH3`
+// for `0x00a9059c`). Returns the push data length, or 0 for other opcodes.
+export const getSelectorPushLength = (opcode: number) =>
+  opcode >= PUSH1_OPCODE && opcode <= PUSH4_OPCODE
+    ? opcode - PUSH1_OPCODE + 1
+    : 0;
+
+// Left-pads the push data of a selector push back to 4 bytes.
+export const toSelectorBytes = (pushed: ArrayLike<number>) => [
+  ...Array<number>(4 - pushed.length).fill(0),
+  ...Array.from(pushed),
+];
+
+// Walks the instructions so bytes inside push data are never taken for opcodes.
+export const findSelectorOffset = (code: Uint8Array, selector: Hex) => {
+  const selectorBytes = Array.from(hexToBytes(selector));
+  if (selectorBytes.length !== 4) {
+    throw new Error('Selector must be 4 bytes');
+  }
+
+  let offset = 0;
+  while (offset < code.length) {
+    const opcode = code[offset] as number;
+    const length = getSelectorPushLength(opcode);
+    const pushed = code.slice(offset + 1, offset + 1 + length);
+    if (
+      length !== 0 &&
+      pushed.length === length &&
+      bytesEqual(toSelectorBytes(pushed), selectorBytes)
+    ) {
+      return offset;
+    }
+
+    offset += getInstructionLength(opcode);
+  }
+
+  return undefined;
+};
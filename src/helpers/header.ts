@@ -0,0 +1,186 @@
+import {
+  type Block,
+  type ByteArray,
+  type Hex,
+  hexToBytes,
+  keccak256,
+  toBytes,
+  toRlp,
+} from 'viem';
+import { CheckFailure } from './mpt';
+
+export type HeaderFork =
+  | 'frontier'
+  | 'london'
+  | 'shanghai'
+  | 'cancun'
+  | 'prague';
+
+// London activates by block number, later forks activate by timestamp.
+export type HeaderForkSchedule = {
+  londonBlock?: bigint;
+  shanghaiTime?: bigint;
+  cancunTime?: bigint;
+  pragueTime?: bigint;
+};
+
+export const HEADER_FORK_SCHEDULES: Record<number, HeaderForkSchedule> = {
+  // Mainnet
+  1: {
+    londonBlock: 12_965_000n,
+    shanghaiTime: 1_681_338_455n,
+    cancunTime: 1_710_338_135n,
+    pragueTime: 1_746_612_311n,
+  },
+  // Sepolia
+  11155111: {
+    londonBlock: 0n,
+    shanghaiTime: 1_677_557_088n,
+    cancunTime: 1_706_655_072n,
+    pragueTime: 1_741_159_776n,
+  },
+};
+
+// Upgrade block numbers `get_header_fields_count` derives the header layout from.
+const HEADER_FORK_BLOCKS: Record<
+  number,
+  { london: bigint; shanghai: bigint; cancun: bigint; prague: bigint }
+> = {
+  1: {
+    london: 12_965_000n,
+    shanghai: 17_034_870n,
+    cancun: 19_426_587n,
+    prague: 22_431_084n,
+  },
+  11155111: {
+    london: 0n,
+    shanghai: 2_990_908n,
+    cancun: 5_187_023n,
+    prague: 7_836_331n,
+  },
+};
+
+export const MAX_HEADER_FIELDS_COUNT = 21;
+
+export const getHeaderFieldsCount = (chainId: bigint, blockNumber: bigint) => {
+  const forks = HEADER_FORK_BLOCKS[Number(chainId)];
+  if (!forks) throw new CheckFailure('Unsupported chain ID');
+
+  let fieldsCount = 15n;
+  if (blockNumber >= forks.london) fieldsCount += 1n;
+  if (blockNumber >= forks.shanghai) fieldsCount += 1n;
+  if (blockNumber >= forks.cancun) fieldsCount += 3n;
+  if (blockNumber >= forks.prague) fieldsCount += 1n;
+  return fieldsCount;
+};
+
+export type HeaderBlock = Block & { requestsHash?: Hex | null };
+
+// Only chains `verify_header` knows the header layout of have a schedule.
+export const getHeaderForkSchedule = (chainId: number) => {
+  const schedule = HEADER_FORK_SCHEDULES[chainId];
+  if (!schedule) {
+    throw new Error(`No header fork schedule known for chain ${chainId}`);
+  }
+  return schedule;
+};
+
+const isActive = (activation: bigint | undefined, value: bigint) =>
+  activation !== undefined && value >= activation;
+
+export const getHeaderFork = (
+  block: Pick<Block, 'number' | 'timestamp'>,
+  schedule: HeaderForkSchedule
+): HeaderFork => {
+  if (isActive(schedule.pragueTime, block.timestamp)) return 'prague';
+  if (isActive(schedule.cancunTime, block.timestamp)) return 'cancun';
+  if (isActive(schedule.shanghaiTime, block.timestamp)) return 'shanghai';
+  if (isActive(schedule.londonBlock, block.number ?? 0n)) return 'london';
+  return 'frontier';
+};
+
+const HEADER_FORKS: HeaderFork[] = [
+  'frontier',
+  'london',
+  'shanghai',
+  'cancun',
+  'prague',
+];
+
+const isForkEnabled = (fork: HeaderFork, required: HeaderFork) =>
+  HEADER_FORKS.indexOf(fork) >= HEADER_FORKS.indexOf(required);
+
+// RLP encodes integers without leading zeros, so zero is the empty byte string.
+const encodeQuantity = (value: bigint) =>
+  value === 0n ? new Uint8Array(0) : toBytes(value);
+
+const requireField = <T>(
+  value: T | null | undefined,
+  field: string,
+  fork: HeaderFork
+) => {
+  if (value === undefined || value === null) {
+    throw new Error(`Block header field ${field} is required from ${fork}`);
+  }
+  return value;
+};
+
+export const serializeBlockHeader = (block: HeaderBlock, fork: HeaderFork) => {
+  const headerData: ByteArray[] = [
+    hexToBytes(block.parentHash),
+    hexToBytes(block.sha3Uncles),
+    hexToBytes(block.miner),
+    hexToBytes(block.stateRoot),
+    hexToBytes(block.transactionsRoot),
+    hexToBytes(block.receiptsRoot),
+    hexToBytes(requireField(block.logsBloom, 'logsBloom', 'frontier')),
+    encodeQuantity(block.difficulty),
+    encodeQuantity(requireField(block.number, 'number', 'frontier')),
+    encodeQuantity(block.gasLimit),
+    encodeQuantity(block.gasUsed),
+    encodeQuantity(block.timestamp),
+    hexToBytes(block.extraData),
+    hexToBytes(block.mixHash),
+    hexToBytes(requireField(block.nonce, 'nonce', 'frontier')),
+  ];
+
+  if (isForkEnabled(fork, 'london')) {
+    headerData.push(
+      encodeQuantity(requireField(block.baseFeePerGas, 'baseFeePerGas', fork))
+    );
+  }
+  if (isForkEnabled(fork, 'shanghai')) {
+    headerData.push(
+      hexToBytes(requireField(block.withdrawalsRoot, 'withdrawalsRoot', fork))
+    );
+  }
+  if (isForkEnabled(fork, 'cancun')) {
+    headerData.push(
+      encodeQuantity(requireField(block.blobGasUsed, 'blobGasUsed', fork)),
+      encodeQuantity(requireField(block.excessBlobGas, 'excessBlobGas', fork)),
+      hexToBytes(
+        requireField(block.parentBeaconBlockRoot, 'parentBeaconBlockRoot', fork)
+      )
+    );
+  }
+  if (isForkEnabled(fork, 'prague')) {
+    headerData.push(
+      hexToBytes(requireField(block.requestsHash, 'requestsHash', fork))
+    );
+  }
+
+  return toRlp(headerData);
+};
+
+export const encodeBlockHeader = (block: HeaderBlock, fork: HeaderFork) => {
+  const headerRlp = serializeBlockHeader(block, fork);
+  const hash = keccak256(headerRlp);
+
+  if (hash !== block.hash) {
+    throw new Error(
+      `Block ${block.number} header hash mismatch for ${fork} encoding: expected ${block.hash}, got ${hash}`
+    );
+  }
+
+  return headerRlp;
+};
@@ -4,3 +4,10 @@ export * from './array';
 export * from './transaction';
 export * from './u128';
 export * from './receipt';
+export * from './rpc';
+export * from './proof';
+export * from './header';
+export * from './mpt';
+export * from './inputs';
+export * from './withdrawal';
+export * from './code';
@@ -0,0 +1,157 @@
+import type { InputMap } from '@noir-lang/noir_js';
+import {
+  type Bool,
+  type BoundedVec,
+  type Field,
+  type FixedSizeArray,
+  type U1,
+  type U8,
+  type U32,
+  type U64,
+  type U128,
+  toCircuitInputs,
+} from '@zkpersona/noir-helpers';
+
+const isPlainValue = (value: unknown): boolean => {
+  if (['string', 'number', 'boolean'].includes(typeof value)) return true;
+  if (Array.isArray(value)) return value.every(isPlainValue);
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype &&
+    Object.values(value).every(isPlainValue)
+  );
+};
+
+// Accepts builder outputs as well as already serialized circuit inputs.
+export const toInputMap = (inputs: object): InputMap =>
+  isPlainValue(inputs) ? (inputs as InputMap) : toCircuitInputs(inputs);
+
+// Circuit input layout, `noir-ethereum codegen` emits one per circuit as `<name>InputShape`.
+export type CircuitInputShape =
+  | string
+  | readonly ['str', number]
+  | readonly ['array', number, CircuitInputShape]
+  | readonly ['tuple', ...CircuitInputShape[]]
+  | { readonly [name: string]: CircuitInputShape };
+
+const isScalar = (value: unknown) =>
+  ['string', 'number', 'boolean'].includes(typeof value);
+
+// Lists the paths where serialized inputs differ from a circuit input shape, fixed
+// array lengths and bounded vector capacities included.
+export const findInputMismatches = (
+  shape: CircuitInputShape,
+  value: unknown,
+  path = ''
+): string[] => {
+  const at = (key: string | number) => (path ? `${path}.${key}` : `${key}`);
+  const label = path || 'inputs';
+
+  if (typeof shape === 'string') {
+    return isScalar(value) ? [] : [`${label}: Expected a ${shape}`];
+  }
+
+  if (Array.isArray(shape)) {
+    const [kind, ...rest] = shape;
+    if (kind === 'str') {
+      return typeof value === 'string' && value.length === rest[0]
+        ? []
+        : [`${label}: Expected a string of length ${rest[0]}`];
+    }
+
+    const items = kind === 'array' ? Array(rest[0]).fill(rest[1]) : rest;
+    if (!Array.isArray(value)) return [`${label}: Expected an array`];
+    if (value.length !== items.length) {
+      return [`${label}: Expected ${items.length} items, got ${value.length}`];
+    }
+    return items.flatMap((item, i) =>
+      findInputMismatches(item, value[i], at(i))
+    );
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${label}: Expected a struct`];
+  }
+  const fields = shape as Record<string, CircuitInputShape>;
+  return [
+    ...Object.keys(value)
+      .filter((key) => !(key in fields))
+      .map((key) => `${at(key)}: Not a circuit input`),
+    ...Object.entries(fields).flatMap(([key, field]) =>
+      key in value
+        ? findInputMismatches(
+            field,
+            (value as Record<string, unknown>)[key],
+            at(key)
+          )
+        : [`${at(key)}: Missing`]
+    ),
+  ];
+};
+
+// Serialized circuit value, `noir-ethereum codegen` brands it with its ABI type (e.g. `u64`).
+export type AbiValue<T extends string> = string & { readonly __abi?: T };
+
+// Builder values for each ABI type, types without one are not compared.
+type AbiValueTypes = {
+  field: Field;
+  u1: U1;
+  u8: U8;
+  u32: U32;
+  u64: U64;
+  u128: U128;
+};
+
+type RequiredKeys<T> = {
+  [K in keyof T]-?: object extends Pick<T, K> ? never : K;
+}[keyof T];
+
+type MatchesValue<
+  Kind extends string,
+  Actual,
+> = Kind extends keyof AbiValueTypes
+  ? [Actual] extends [AbiValueTypes[Kind]]
+    ? true
+    : false
+  : true;
+
+type MatchesStruct<Expected, Actual> = [
+  Exclude<keyof Expected, keyof Actual>,
+  Exclude<RequiredKeys<Actual>, keyof Expected>,
+] extends [never, never]
+  ? {
+      [K in keyof Expected]-?: MatchesCircuitInputs<
+        Expected[K],
+        NonNullable<Actual[K & keyof Actual]>
+      >;
+    }[keyof Expected] extends true
+    ? true
+    : false
+  : false;
+
+// Compares a builder output with the generated input types of a circuit.
+// Structs are compared field by field, scalars against the noir-helpers type of
+// their ABI type, and arrays and bounded vectors by kind, `findInputMismatches`
+// compares their lengths.
+export type MatchesCircuitInputs<Expected, Actual> = Expected extends AbiValue<
+  infer Kind extends string
+>
+  ? MatchesValue<Kind, Actual>
+  : Expected extends boolean
+    ? [Actual] extends [Bool]
+      ? true
+      : false
+    : Expected extends (infer E)[]
+      ? [Actual] extends [InstanceType<typeof FixedSizeArray>]
+        ? true
+        : Actual extends (infer A)[]
+          ? MatchesCircuitInputs<E, A>
+          : false
+      : Expected extends object
+        ? [keyof Expected] extends ['storage' | 'len']
+          ? [Actual] extends [InstanceType<typeof BoundedVec>]
+            ? true
+            : false
+          : MatchesStruct<Expected, Actual>
+        : true;
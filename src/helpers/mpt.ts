@@ -0,0 +1,417 @@
+import { keccak256 } from 'viem';
+
+const HASH_LENGTH = 32;
+const MAX_NODE_FIELDS = 17;
+export const BRANCH_NODE_NUM_FIELDS = 17;
+const EXTENSION_NODE_NUM_FIELDS = 2;
+
+// Padded proof input, laid out exactly as the circuit receives it.
+export type PaddedProofInput = {
+  key: number[];
+  value: number[];
+  nodes: number[][];
+  leaf: number[];
+  depth: number;
+};
+
+export type MerkleProofCheck = {
+  check: string;
+  passed: boolean;
+  node?: number;
+  message?: string;
+};
+
+export type MerkleProofReport = {
+  valid: boolean;
+  checks: MerkleProofCheck[];
+};
+
+export type RlpItem = {
+  offset: number;
+  length: number;
+  isList: boolean;
+};
+
+export class CheckFailure extends Error {}
+
+export const assertCheck = (condition: boolean, message: string) => {
+  if (!condition) throw new CheckFailure(message);
+};
+
+// Records named checks, a check fails when its callback throws a `CheckFailure`.
+export const createCheckRunner = () => {
+  const checks: MerkleProofCheck[] = [];
+
+  const run = (check: string, fn: () => void, node?: number) => {
+    try {
+      fn();
+      checks.push({ check, passed: true, node });
+      return true;
+    } catch (error) {
+      if (!(error instanceof CheckFailure)) throw error;
+      checks.push({ check, passed: false, node, message: error.message });
+      return false;
+    }
+  };
+
+  return { checks, run };
+};
+
+// Mirrors `byte_value`: drops leading zero bytes of a left padded array.
+export const byteValue = (data: number[]) => {
+  const start = data.findIndex((x) => x !== 0);
+  return start === -1 ? [] : data.slice(start);
+};
+
+export const bytesToNibbles = (data: number[]) =>
+  data.flatMap((x) => [x >> 4, x & 0xf]);
+
+const readLength = (data: number[], start: number, lenlen: number) => {
+  let length = 0;
+  for (let i = 0; i < lenlen; i++) {
+    length = length * 256 + (data[start + i] ?? 0);
+  }
+  return length;
+};
+
+export const decodeRlpHeader = (data: number[], start = 0): RlpItem => {
+  const first = data[start] ?? 0;
+
+  if (first < 0x80) return { offset: 0, length: 1, isList: false };
+  if (first < 0xb8) return { offset: 1, length: first - 0x80, isList: false };
+  if (first < 0xc0) {
+    const lenlen = first - 0xb7;
+    return {
+      offset: 1 + lenlen,
+      length: readLength(data, start + 1, lenlen),
+      isList: false,
+    };
+  }
+  if (first < 0xf8) return { offset: 1, length: first - 0xc0, isList: true };
+
+  const lenlen = first - 0xf7;
+  return {
+    offset: 1 + lenlen,
+    length: readLength(data, start + 1, lenlen),
+    isList: true,
+  };
+};
+
+// Mirrors `decode_list`: string items point at their payload, list items include their header.
+export const decodeRlpList = (data: number[], maxFields: number) => {
+  const header = decodeRlpHeader(data);
+  assertCheck(header.isList, 'Decoded data is not a list');
+
+  const totalLength = header.offset + header.length;
+  assertCheck(totalLength <= data.length, 'Total length exceeds data length');
+
+  const items: RlpItem[] = [];
+  let current = header.offset;
+  while (current < totalLength && items.length < maxFields) {
+    const item = decodeRlpHeader(data, current);
+    items.push(
+      item.isList
+        ? { offset: current, length: item.offset + item.length, isList: true }
+        : { offset: current + item.offset, length: item.length, isList: false }
+    );
+    current += item.offset + item.length;
+  }
+  assertCheck(
+    current === totalLength,
+    'RLP List length does not match the total length'
+  );
+
+  return items;
+};
+
+export const decodeListOfSmallStrings = (data: number[], maxFields: number) => {
+  const header = decodeRlpHeader(data);
+  assertCheck(header.isList, 'Expected a list');
+
+  const totalLength = header.offset + header.length;
+  assertCheck(totalLength <= data.length, 'Total length exceeds input length');
+
+  const items: RlpItem[] = [];
+  let current = header.offset;
+  while (current < totalLength && items.length < maxFields) {
+    const first = data[current] ?? 0;
+    assertCheck(first < 0xb8, 'Element is not a string of length < 56 bytes');
+    const [offset, length] = first < 0x80 ? [0, 1] : [1, first - 0x80];
+    items.push({ offset: current + offset, length, isList: false });
+    current += offset + length;
+  }
+  assertCheck(current === totalLength, 'Inconsistent rlp length');
+
+  return items;
+};
+
+export const getRlpItem = (items: RlpItem[], index: number) => {
+  const item = items[index];
+  assertCheck(item !== undefined, `RLP list has no item at index ${index}`);
+  return item as RlpItem;
+};
+
+export const sliceRlpItem = (data: number[], item: RlpItem) =>
+  data.slice(item.offset, item.offset + item.length);
+
+export const bytesEqual = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((x, i) => x === b[i]);
+
+const verifyNodeHash = (node: number[], hash: number[]) => {
+  const header = decodeRlpHeader(node);
+  const nodeLength = header.offset + header.length;
+  assertCheck(
+    nodeLength <= node.length,
+    'Node RLP length exceeds maximum length'
+  );
+
+  const nodeHash = keccak256(
+    Uint8Array.from(node.slice(0, nodeLength)),
+    'bytes'
+  );
+  assertCheck(
+    bytesEqual(Array.from(nodeHash), hash),
+    'Node hash does not match expected hash'
+  );
+};
+
+const stripPrefix = (encodedPath: number[]) => {
+  const [prefix = 0, ...nibbles] = bytesToNibbles(encodedPath);
+  assertCheck(prefix < 4, 'Prefix must be 0, 1, 2 or 3');
+  if (prefix % 2 === 0) {
+    assertCheck(
+      nibbles.shift() === 0,
+      'Expected a zero after a prefix of even parity'
+    );
+  }
+  return nibbles;
+};
+
+const keyPart = (keyNibbles: number[], start: number, length: number) => {
+  assertCheck(
+    start + length <= keyNibbles.length,
+    'Key part exceeds the key nibbles length'
+  );
+  return keyNibbles.slice(start, start + length);
+};
+
+// Mirrors `extract_hash`: follows the key through a branch or extension node.
+const extractHash = (
+  node: number[],
+  keyNibbles: number[],
+  keyPtr: number
+): [number[], number] => {
+  const items = decodeListOfSmallStrings(node, MAX_NODE_FIELDS);
+
+  if (items.length === BRANCH_NODE_NUM_FIELDS) {
+    const nibble = keyNibbles[keyPtr];
+    assertCheck(nibble !== undefined, 'Key nibbles exhausted before the leaf');
+    const child = getRlpItem(items, nibble as number);
+    assertCheck(
+      child.length === HASH_LENGTH,
+      'Expected a hash at position given by the key nibble'
+    );
+    return [sliceRlpItem(node, child), keyPtr + 1];
+  }
+
+  if (items.length === EXTENSION_NODE_NUM_FIELDS) {
+    const encodedPath = sliceRlpItem(node, getRlpItem(items, 0));
+    const prefix = (encodedPath[0] ?? 0) >> 4;
+    assertCheck(
+      prefix === 0 || prefix === 1,
+      'Extension parity prefix must be 0 or 1'
+    );
+
+    const partialKey = stripPrefix(encodedPath);
+    assertCheck(
+      bytesEqual(partialKey, keyPart(keyNibbles, keyPtr, partialKey.length)),
+      'Extension key part does not correspond to given key nibbles'
+    );
+
+    const next = getRlpItem(items, 1);
+    assertCheck(
+      next.length === HASH_LENGTH,
+      'Expected a hash at the end of the extension node'
+    );
+    return [sliceRlpItem(node, next), keyPtr + partialKey.length];
+  }
+
+  throw new CheckFailure('Invalid node type');
+};
+
+// Replays `verify_merkle_proof` over the padded arrays and stops at the first failing check.
+export const verifyMerkleProof = (
+  input: PaddedProofInput,
+  root: number[]
+): MerkleProofReport => {
+  const { checks, run } = createCheckRunner();
+
+  const keyNibbles = bytesToNibbles(byteValue(input.key));
+  let keyPtr = 0;
+  let currentHash = root;
+
+  // `depth - 1` underflows in the circuit when depth is 0, walking every node.
+  const walkedNodes =
+    input.depth === 0
+      ? input.nodes.length
+      : Math.min(input.depth - 1, input.nodes.length);
+
+  for (let i = 0; i < walkedNodes; i++) {
+    const node = input.nodes[i] ?? [];
+
+    if (!run('node_hash', () => verifyNodeHash(node, currentHash), i)) {
+      return { valid: false, checks };
+    }
+
+    const extracted = run(
+      'node_path',
+      () => {
+        [currentHash, keyPtr] = extractHash(node, keyNibbles, keyPtr);
+      },
+      i
+    );
+
+    if (!extracted) return { valid: false, checks };
+  }
+
+  const { leaf } = input;
+  if (!run('leaf_hash', () => verifyNodeHash(leaf, currentHash))) {
+    return { valid: false, checks };
+  }
+
+  let leafItems: RlpItem[] = [];
+  const leafValid =
+    run('leaf_key', () => {
+      leafItems = decodeRlpList(leaf, 2);
+      assertCheck(leafItems.length === 2, 'Leaf expected to have 2 fields');
+
+      const encodedPath = sliceRlpItem(leaf, getRlpItem(leafItems, 0));
+      const prefix = (encodedPath[0] ?? 0) >> 4;
+      assertCheck(
+        prefix === 2 || prefix === 3,
+        'Leaf parity prefix must be 2 or 3'
+      );
+
+      const leafKeyPart = stripPrefix(encodedPath);
+      assertCheck(
+        bytesEqual(
+          leafKeyPart,
+          keyPart(keyNibbles, keyPtr, leafKeyPart.length)
+        ),
+        'Key mismatch in the leaf'
+      );
+      keyPtr += leafKeyPart.length;
+      assertCheck(
+        keyPtr === keyNibbles.length,
+        'Expected to consume all key nibbles'
+      );
+    }) &&
+    run('leaf_value', () => {
+      const value = byteValue(input.value);
+      const valueItem = getRlpItem(leafItems, 1);
+      assertCheck(valueItem.length === value.length, 'Value length mismatch');
+      assertCheck(
+        bytesEqual(sliceRlpItem(leaf, valueItem), value),
+        'Value data mismatch'
+      );
+    });
+
+  return { valid: leafValid, checks };
+};
+
+// keccak256(0x80), the root of a trie with no entries.
+export const EMPTY_TRIE_ROOT = Array.from(
+  keccak256(Uint8Array.from([0x80]), 'bytes')
+);
+
+// Replays `verify_exclusion_proof`, the terminal node must show the key has no value.
+export const verifyExclusionProof = (
+  input: PaddedProofInput,
+  root: number[]
+): MerkleProofReport => {
+  const { checks, run } = createCheckRunner();
+
+  if (input.depth === 0) {
+    const valid = run('empty_trie', () =>
+      assertCheck(
+        bytesEqual(root, EMPTY_TRIE_ROOT),
+        'Expected an empty trie for a proof of depth 0'
+      )
+    );
+    return { valid, checks };
+  }
+
+  const keyNibbles = bytesToNibbles(byteValue(input.key));
+  let keyPtr = 0;
+  let currentHash = root;
+
+  const walkedNodes = Math.min(input.depth - 1, input.nodes.length);
+  for (let i = 0; i < walkedNodes; i++) {
+    const node = input.nodes[i] ?? [];
+
+    if (!run('node_hash', () => verifyNodeHash(node, currentHash), i)) {
+      return { valid: false, checks };
+    }
+
+    const extracted = run(
+      'node_path',
+      () => {
+        [currentHash, keyPtr] = extractHash(node, keyNibbles, keyPtr);
+      },
+      i
+    );
+
+    if (!extracted) return { valid: false, checks };
+  }
+
+  // A valid node never starts with a zero byte, an empty leaf marks a branch terminal node.
+  if (input.leaf[0] === 0) {
+    const index = input.depth - 1;
+    const node = input.nodes[index] ?? [];
+
+    if (!run('node_hash', () => verifyNodeHash(node, currentHash), index)) {
+      return { valid: false, checks };
+    }
+
+    const valid = run(
+      'branch_exclusion',
+      () => {
+        const items = decodeListOfSmallStrings(node, MAX_NODE_FIELDS);
+        assertCheck(
+          items.length === BRANCH_NODE_NUM_FIELDS,
+          'Expected a branch node'
+        );
+        const nibble = keyNibbles[keyPtr];
+        assertCheck(
+          nibble !== undefined,
+          'Key nibbles exhausted before the leaf'
+        );
+        assertCheck(
+          getRlpItem(items, nibble as number).length === 0,
+          'Expected an empty child at position given by the key nibble'
+        );
+      },
+      index
+    );
+    return { valid, checks };
+  }
+
+  const { leaf } = input;
+  if (!run('leaf_hash', () => verifyNodeHash(leaf, currentHash))) {
+    return { valid: false, checks };
+  }
+
+  const valid = run('leaf_exclusion', () => {
+    const items = decodeRlpList(leaf, 2);
+    assertCheck(items.length === 2, 'Leaf expected to have 2 fields');
+
+    const path = stripPrefix(sliceRlpItem(leaf, getRlpItem(items, 0)));
+    const length = Math.min(path.length, keyNibbles.length - keyPtr);
+    assertCheck(
+      !bytesEqual(path, keyPart(keyNibbles, keyPtr, length)),
+      'Key is not excluded by the terminal node'
+    );
+  });
+
+  return { valid, checks };
+};
@@ -0,0 +1,199 @@
+import { FixedSizeArray, U8, U64 } from '@zkpersona/noir-helpers';
+import { type Hex, hexToBytes } from 'viem';
+import { leftPad, rightPad } from './array';
+import {
+  BRANCH_NODE_NUM_FIELDS,
+  type MerkleProofReport,
+  type PaddedProofInput,
+  decodeRlpList,
+  verifyExclusionProof,
+  verifyMerkleProof,
+} from './mpt';
+
+export const MAX_NODE_LENGTH = 532;
+
+export type ProofSizeOpts = {
+  maxDepthNoLeaf: number;
+  maxLeafLength: number;
+  maxKeyLength: number;
+  maxValueLength: number;
+};
+
+export type ProofVerifyOpts = {
+  // Replays the circuit's merkle proof checks over the padded inputs before returning them.
+  verify?: boolean;
+};
+
+export type EncodeProofInputOpts = ProofSizeOpts &
+  ProofVerifyOpts & {
+    name: string;
+    key: Uint8Array;
+    value: Uint8Array;
+    proof: (Hex | Uint8Array)[];
+    root: Hex | Uint8Array;
+  };
+
+export class ProofInputVerificationError extends Error {
+  report: MerkleProofReport;
+
+  constructor(name: string, report: MerkleProofReport) {
+    const failed = report.checks.find((c) => !c.passed);
+    const node = failed?.node === undefined ? '' : ` (node ${failed.node})`;
+    super(
+      `${name} Proof input verification failed at ${failed?.check}${node}: ${failed?.message}`
+    );
+    this.name = 'ProofInputVerificationError';
+    this.report = report;
+  }
+}
+
+const toBytes = (data: Hex | Uint8Array) =>
+  data instanceof Uint8Array ? data : hexToBytes(data);
+
+const toU8Array = (data: number[]) =>
+  new FixedSizeArray(
+    data.length,
+    data.map((x) => new U8(x))
+  );
+
+// Checks every part against its max size and pads it the way the circuit expects.
+const padProofInput = (
+  opts: EncodeProofInputOpts,
+  nodes: Uint8Array[],
+  leafNode: Uint8Array,
+  depth: number
+) => {
+  const { name, maxDepthNoLeaf, maxLeafLength, maxKeyLength, maxValueLength } =
+    opts;
+
+  if (nodes.length > maxDepthNoLeaf) {
+    throw new Error(
+      `${name} Proof depth (${nodes.length}) exceeds Max Depth provided (${maxDepthNoLeaf})`
+    );
+  }
+
+  for (const node of nodes) {
+    if (node.length > MAX_NODE_LENGTH) {
+      throw new Error(
+        `${name} Proof node length (${node.length}) exceeds max node length (${MAX_NODE_LENGTH})`
+      );
+    }
+  }
+
+  if (leafNode.length > maxLeafLength) {
+    throw new Error(
+      `${name} Proof leaf node length (${leafNode.length}) exceeds max leaf length (${maxLeafLength})`
+    );
+  }
+
+  if (opts.key.length > maxKeyLength) {
+    throw new Error(
+      `${name} Proof key length (${opts.key.length}) exceeds max key length (${maxKeyLength})`
+    );
+  }
+
+  if (opts.value.length > maxValueLength) {
+    throw new Error(
+      `${name} Proof value length (${opts.value.length}) exceeds max value length (${maxValueLength})`
+    );
+  }
+
+  const padded: PaddedProofInput = {
+    key: leftPad(opts.key, maxKeyLength),
+    value: leftPad(opts.value, maxValueLength),
+    nodes: nodes.map((val) => rightPad(val, MAX_NODE_LENGTH)),
+    leaf: rightPad(leafNode, maxLeafLength),
+    depth,
+  };
+
+  while (padded.nodes.length !== maxDepthNoLeaf) {
+    padded.nodes.push(new Array<number>(MAX_NODE_LENGTH).fill(0));
+  }
+
+  return padded;
+};
+
+const toProofInput = (padded: PaddedProofInput, maxDepthNoLeaf: number) => {
+  const proof = {
+    nodes: new FixedSizeArray(maxDepthNoLeaf, padded.nodes.map(toU8Array)),
+    leaf: toU8Array(padded.leaf),
+    depth: new U64(padded.depth),
+  };
+
+  const key = toU8Array(padded.key);
+  const value = toU8Array(padded.value);
+
+  return {
+    key,
+    value,
+    proof,
+  };
+};
+
+const padInclusionProofInput = (opts: EncodeProofInputOpts) => {
+  const proofNodes = opts.proof.map(toBytes);
+  const leafNode = proofNodes.at(-1) ?? new Uint8Array(0);
+  const nodes = proofNodes.slice(0, -1);
+
+  return padProofInput(opts, nodes, leafNode, proofNodes.length);
+};
+
+// Replays the circuit's merkle proof checks over the inputs `encodeProofInput` emits.
+export const verifyProofInput = (opts: EncodeProofInputOpts) =>
+  verifyMerkleProof(
+    padInclusionProofInput(opts),
+    Array.from(toBytes(opts.root))
+  );
+
+export const encodeProofInput = (opts: EncodeProofInputOpts) => {
+  const padded = padInclusionProofInput(opts);
+
+  if (opts.verify) {
+    const report = verifyMerkleProof(padded, Array.from(toBytes(opts.root)));
+    if (!report.valid) throw new ProofInputVerificationError(opts.name, report);
+  }
+
+  return toProofInput(padded, opts.maxDepthNoLeaf);
+};
+
+export type EncodeExclusionProofInputOpts = Omit<EncodeProofInputOpts, 'value'>;
+
+// Lays out a proof of absence for `verify_exclusion_proof`: a terminal branch node stays
+// in `nodes` with an empty leaf, a diverging leaf or extension node goes in `leaf`.
+const padExclusionProofInput = (opts: EncodeExclusionProofInputOpts) => {
+  const proofNodes = opts.proof.map(toBytes);
+  const terminal = proofNodes.at(-1);
+  const isBranch =
+    terminal !== undefined &&
+    decodeRlpList(Array.from(terminal), BRANCH_NODE_NUM_FIELDS).length ===
+      BRANCH_NODE_NUM_FIELDS;
+
+  return padProofInput(
+    { ...opts, value: new Uint8Array(0) },
+    isBranch ? proofNodes : proofNodes.slice(0, -1),
+    isBranch ? new Uint8Array(0) : (terminal ?? new Uint8Array(0)),
+    proofNodes.length
+  );
+};
+
+// Replays the circuit's exclusion checks over the inputs `encodeExclusionProofInput` emits.
+export const verifyExclusionProofInput = (
+  opts: EncodeExclusionProofInputOpts
+) =>
+  verifyExclusionProof(
+    padExclusionProofInput(opts),
+    Array.from(toBytes(opts.root))
+  );
+
+export const encodeExclusionProofInput = (
+  opts: EncodeExclusionProofInputOpts
+) => {
+  const padded = padExclusionProofInput(opts);
+
+  if (opts.verify) {
+    const report = verifyExclusionProof(padded, Array.from(toBytes(opts.root)));
+    if (!report.valid) throw new ProofInputVerificationError(opts.name, report);
+  }
+
+  return toProofInput(padded, opts.maxDepthNoLeaf);
+};
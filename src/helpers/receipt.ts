@@ -1,4 +1,11 @@
-import { Bool, FixedSizeArray, U1, U8, U64 } from '@zkpersona/noir-helpers';
+import {
+  Bool,
+  BoundedVec,
+  FixedSizeArray,
+  U1,
+  U8,
+  U64,
+} from '@zkpersona/noir-helpers';
 import {
   type Hex,
   type TransactionReceipt,
@@ -8,6 +15,7 @@ import {
   hexToBytes,
   toRlp,
 } from 'viem';
+import { parseAddress } from './address';
 import { parseByteArray } from './array';
 import { parseBytes32 } from './bytes32';
 
@@ -106,3 +114,66 @@ export const parseTxReceiptPartial = (
     logs_bloom: new FixedSizeArray(256, parseByteArray(receipt.logsBloom)),
   };
 };
+
+export type ReceiptLogFilter =
+  | { index: number }
+  | { address?: Hex; topics?: (Hex | null)[] };
+
+export const findReceiptLogIndex = (
+  logs: TransactionReceipt<Hex, Hex, Hex, Hex>['logs'],
+  filter: ReceiptLogFilter
+) => {
+  if ('index' in filter) {
+    if (filter.index < 0 || filter.index >= logs.length) {
+      throw new Error(
+        `Log index (${filter.index}) out of range, receipt has ${logs.length} logs`
+      );
+    }
+    return filter.index;
+  }
+
+  const { address, topics = [] } = filter;
+  const index = logs.findIndex(
+    (log) =>
+      (!address || log.address.toLowerCase() === address.toLowerCase()) &&
+      topics.every(
+        (topic, i) =>
+          topic === null || log.topics[i]?.toLowerCase() === topic.toLowerCase()
+      )
+  );
+
+  if (index === -1) {
+    throw new Error('No log in receipt matches the provided filter');
+  }
+  return index;
+};
+
+export const parseReceiptLog = (
+  log: TransactionReceipt<Hex, Hex, Hex, Hex>['logs'][number],
+  maxTopics: number,
+  maxLogDataLength: number
+) => {
+  const data = parseByteArray(log.data);
+
+  if (log.topics.length > maxTopics) {
+    throw new Error(
+      `Log topics count (${log.topics.length}) exceeds max topics (${maxTopics})`
+    );
+  }
+
+  if (data.length > maxLogDataLength) {
+    throw new Error(
+      `Log data length (${data.length}) exceeds max log data length (${maxLogDataLength})`
+    );
+  }
+
+  return {
+    address: parseAddress(log.address),
+    topics: new BoundedVec(
+      maxTopics,
+      new FixedSizeArray(32, new Array(32).fill(new U8(0))),
+      log.topics.map((topic) => parseBytes32(topic))
+    ),
+    data: new BoundedVec(maxLogDataLength, new U8(0), data),
+  };
+};
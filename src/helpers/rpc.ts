@@ -0,0 +1,36 @@
+import {
+  type Block,
+  type GetProofReturnType,
+  type RpcBlock,
+  type RpcProof,
+  formatBlock,
+  hexToBigInt,
+  hexToNumber,
+} from 'viem';
+
+export type BlockPayload = Block | RpcBlock;
+
+export type ProofPayload = GetProofReturnType | RpcProof;
+
+// Accepts both raw JSON-RPC blocks (hex quantities) and blocks already formatted by viem.
+export const parseRpcBlock = <T extends Block = Block>(
+  block: BlockPayload
+): T => {
+  if (typeof block.gasLimit === 'bigint') return block as T;
+  return formatBlock(block as RpcBlock) as T;
+};
+
+// Accepts both raw `eth_getProof` responses and proofs already formatted by viem.
+export const parseRpcProof = (proof: ProofPayload): GetProofReturnType => {
+  if (typeof proof.balance === 'bigint') return proof as GetProofReturnType;
+  const rpcProof = proof as RpcProof;
+  return {
+    ...rpcProof,
+    balance: hexToBigInt(rpcProof.balance),
+    nonce: hexToNumber(rpcProof.nonce),
+    storageProof: rpcProof.storageProof.map((storageProof) => ({
+      ...storageProof,
+      value: hexToBigInt(storageProof.value),
+    })),
+  };
+};
@@ -18,6 +18,7 @@ import {
   assertTransactionEIP1559,
   assertTransactionEIP2930,
   concatBytes,
+  fromRlp,
   hexToBytes,
   isAddress,
   toBytes,
@@ -328,6 +329,40 @@ export function serializeAuthorizationList(
   return serializedAuthorizationList;
 }
 
+// EIP-155: v = chain_id * 2 + 35 + y_parity, pre EIP-155 transactions use 27 or 28.
+export const getLegacyChainId = (v: bigint) => (v >= 35n ? (v - 35n) / 2n : 0n);
+
+export const getLegacyYParity = (v: bigint) =>
+  Number(v >= 35n ? (v - 35n) % 2n : v - 27n);
+
+// The payload the signature commits to: the serialized fields without the signature,
+// legacy EIP-155 transactions append `chainId, 0, 0` and typed ones keep their type prefix.
+export const getTransactionSigningPayload = (tx: Transaction) => {
+  const serialized = serializeTransaction(tx);
+  const isLegacy = tx.type === 'legacy';
+  const fields = fromRlp(
+    isLegacy ? serialized : serialized.slice(1),
+    'bytes'
+  ) as RecursiveArray<Uint8Array>[];
+  const unsigned = fields.slice(0, -3);
+
+  if (isLegacy) {
+    if (tx.v < 35n) return toRlp(unsigned, 'bytes');
+    const chainId = getLegacyChainId(tx.v);
+    return toRlp(
+      [
+        ...unsigned,
+        chainId ? toBytes(chainId) : hexToBytes('0x'),
+        hexToBytes('0x'),
+        hexToBytes('0x'),
+      ],
+      'bytes'
+    );
+  }
+
+  return concatBytes([serialized.slice(0, 1), toRlp(unsigned, 'bytes')]);
+};
+
 export const encodeIndex = (index: number) => {
   return index === 0 ? hexToBytes('0x80') : toRlp(toBytes(index), 'bytes');
 };
@@ -0,0 +1,28 @@
+import { U64 } from '@zkpersona/noir-helpers';
+import { type Hex, type Withdrawal, hexToBigInt, toHex, toRlp } from 'viem';
+import { parseAddress } from './address';
+
+// RLP integers carry no leading zeros.
+const toRlpQuantity = (value: Hex) => {
+  const quantity = hexToBigInt(value);
+  return quantity === 0n ? '0x' : toHex(quantity);
+};
+
+// EIP-4895: withdrawals are encoded as `rlp([index, validator_index, address, amount])`.
+export const serializeWithdrawal = (withdrawal: Withdrawal) =>
+  toRlp(
+    [
+      toRlpQuantity(withdrawal.index),
+      toRlpQuantity(withdrawal.validatorIndex),
+      withdrawal.address,
+      toRlpQuantity(withdrawal.amount),
+    ],
+    'bytes'
+  );
+
+export const parseWithdrawal = (withdrawal: Withdrawal) => ({
+  index: new U64(hexToBigInt(withdrawal.index)),
+  validator_index: new U64(hexToBigInt(withdrawal.validatorIndex)),
+  address: parseAddress(withdrawal.address),
+  amount: new U64(hexToBigInt(withdrawal.amount)),
+});
@@ -1,7 +1,20 @@
 export * from './account';
+export * from './code';
 export * from './storage';
+export * from './slot';
+export * from './layout';
 export * from './header';
 export * from './transaction';
 export * from './receipt';
+export * from './withdrawal';
+export * from './event';
+export * from './verifier';
+export * from './transport';
+export * from './cache';
+export * from './synthetic';
+export * from './toml';
+export * from './prove';
+export * from './decoder';
+export * from './codegen';
 
 export * from './helpers';
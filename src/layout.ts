@@ -0,0 +1,347 @@
+import {
+  type AbiParameter,
+  type GetBlockParameters,
+  type Hex,
+  type PublicClient,
+  fromRlp,
+  getAddress,
+  hexToBigInt,
+  hexToString,
+  isHex,
+  numberToHex,
+} from 'viem';
+import type { ProofVerifyOpts } from './helpers';
+import { type StorageSlotPathItem, getStorageSlot } from './slot';
+import {
+  type BuildStorageProofOpts,
+  type StorageProofSizeOpts,
+  buildStorageExclusionProof,
+  buildStorageProof,
+  verifyStorageSlot,
+} from './storage';
+
+export type StorageLayoutEntry = {
+  astId?: number;
+  contract?: string;
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+};
+
+export type StorageLayoutType = {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+  label: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: StorageLayoutEntry[];
+};
+
+export type StorageLayout = {
+  storage: StorageLayoutEntry[];
+  types: Record<string, StorageLayoutType> | null;
+};
+
+export type StorageVariable = {
+  slot: Hex;
+  offset: number;
+  size: number;
+  type: StorageLayoutType;
+};
+
+export type GetStorageLayoutProofOpts = {
+  address: Hex;
+  layout: StorageLayout;
+  variable: string;
+} & StorageProofSizeOpts &
+  ProofVerifyOpts &
+  GetBlockParameters;
+
+export type BuildStorageLayoutProofOpts = Omit<
+  BuildStorageProofOpts,
+  'slot'
+> & {
+  layout: StorageLayout;
+  variable: string;
+};
+
+type PathToken =
+  | { kind: 'member'; label: string }
+  | { kind: 'index'; value: string };
+
+const parseVariablePath = (variable: string) => {
+  const tokens: PathToken[] = [];
+  const path = variable.trim();
+  let i = 0;
+
+  const readIdentifier = () => {
+    const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(path.slice(i));
+    if (!match) {
+      throw new Error(`Invalid storage variable path "${variable}" at ${i}`);
+    }
+    i += match[0].length;
+    return match[0];
+  };
+
+  tokens.push({ kind: 'member', label: readIdentifier() });
+
+  while (i < path.length) {
+    const char = path[i];
+    if (char === '.') {
+      i += 1;
+      tokens.push({ kind: 'member', label: readIdentifier() });
+      continue;
+    }
+    if (char !== '[') {
+      throw new Error(`Invalid storage variable path "${variable}" at ${i}`);
+    }
+
+    i += 1;
+    const quote = path[i];
+    let value: string;
+    if (quote === '"' || quote === "'") {
+      const end = path.indexOf(quote, i + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated string key in "${variable}"`);
+      }
+      value = path.slice(i + 1, end);
+      i = end + 1;
+    } else {
+      const end = path.indexOf(']', i);
+      if (end === -1) {
+        throw new Error(`Unterminated index in "${variable}"`);
+      }
+      value = path.slice(i, end).trim();
+      i = end;
+    }
+
+    if (path[i] !== ']') {
+      throw new Error(`Invalid storage variable path "${variable}" at ${i}`);
+    }
+    i += 1;
+    tokens.push({ kind: 'index', value });
+  }
+
+  return tokens;
+};
+
+const getLayoutType = (layout: StorageLayout, typeId: string) => {
+  const type = layout.types?.[typeId];
+  if (!type) {
+    throw new Error(`Type ${typeId} not found in storage layout`);
+  }
+  return type;
+};
+
+const toAbiType = (type: StorageLayoutType): AbiParameter['type'] => {
+  const { label } = type;
+  if (label.startsWith('contract ') || label.startsWith('address')) {
+    return 'address';
+  }
+  if (label.startsWith('enum ')) return 'uint8';
+  if (/^(bool|string|bytes|u?int\d+|bytes\d+)$/.test(label)) return label;
+  throw new Error(`Unsupported mapping key type ${label}`);
+};
+
+const parseMappingKey = (abiType: AbiParameter['type'], value: string) => {
+  if (abiType === 'string') return value;
+  if (abiType === 'bool') {
+    if (value !== 'true' && value !== 'false') {
+      throw new Error(`Invalid bool mapping key ${value}`);
+    }
+    return value === 'true';
+  }
+  if (abiType === 'address' || abiType.startsWith('bytes')) {
+    if (!isHex(value)) {
+      throw new Error(`Invalid ${abiType} mapping key ${value}`);
+    }
+    return value;
+  }
+  return BigInt(value);
+};
+
+export const resolveStorageVariable = (
+  layout: StorageLayout,
+  variable: string
+): StorageVariable => {
+  const [root, ...tokens] = parseVariablePath(variable);
+  if (root?.kind !== 'member') {
+    throw new Error(`Invalid storage variable path "${variable}"`);
+  }
+
+  const entry = layout.storage.find((item) => item.label === root.label);
+  if (!entry) {
+    throw new Error(`Storage variable ${root.label} not found in layout`);
+  }
+
+  const path: StorageSlotPathItem[] = [
+    { kind: 'member', slot: BigInt(entry.slot), offset: entry.offset },
+  ];
+  let type = getLayoutType(layout, entry.type);
+
+  for (const token of tokens) {
+    if (token.kind === 'member') {
+      const member = type.members?.find((m) => m.label === token.label);
+      if (!member) {
+        throw new Error(`Member ${token.label} not found in ${type.label}`);
+      }
+      path.push({
+        kind: 'member',
+        slot: BigInt(member.slot),
+        offset: member.offset,
+      });
+      type = getLayoutType(layout, member.type);
+      continue;
+    }
+
+    if (type.encoding === 'mapping' && type.key && type.value) {
+      const keyType = toAbiType(getLayoutType(layout, type.key));
+      path.push({
+        kind: 'mapping',
+        keyType,
+        key: parseMappingKey(keyType, token.value),
+      });
+      type = getLayoutType(layout, type.value);
+      continue;
+    }
+
+    if (type.base) {
+      const base = getLayoutType(layout, type.base);
+      const index = BigInt(token.value);
+      path.push({
+        kind: type.encoding === 'dynamic_array' ? 'array' : 'fixedArray',
+        index,
+        elementSize: Number(base.numberOfBytes),
+      });
+      type = base;
+      continue;
+    }
+
+    throw new Error(`Cannot index into ${type.label}`);
+  }
+
+  const { slot, offset } = getStorageSlot(0n, path);
+
+  return {
+    slot,
+    offset,
+    size: Number(type.numberOfBytes),
+    type,
+  };
+};
+
+export const decodeStorageValue = (
+  variable: StorageVariable,
+  value: bigint
+) => {
+  const { type, offset, size } = variable;
+  const { label, encoding } = type;
+
+  if (encoding === 'mapping') {
+    throw new Error(`Cannot decode mapping ${label} from a single slot`);
+  }
+
+  if (encoding === 'dynamic_array') return value;
+
+  if (encoding === 'bytes') {
+    // Short values (< 32 bytes) are stored inline with `length * 2` in the lowest byte.
+    if (value & 1n) {
+      throw new Error(`Long ${label} values span multiple storage slots`);
+    }
+    const length = Number(value & 0xffn) / 2;
+    const data = numberToHex(value >> 8n, { size: 31 }).slice(
+      0,
+      2 + length * 2
+    );
+    return label === 'string' ? hexToString(data as Hex) : data;
+  }
+
+  if (size > 32) {
+    throw new Error(`Cannot decode ${label} spanning multiple storage slots`);
+  }
+
+  const bits = BigInt(size * 8);
+  const raw = (value >> BigInt(offset * 8)) & ((1n << bits) - 1n);
+
+  if (label === 'bool') return raw === 1n;
+  if (label.startsWith('address') || label.startsWith('contract ')) {
+    return getAddress(numberToHex(raw, { size: 20 }));
+  }
+  if (/^bytes\d+$/.test(label)) return numberToHex(raw, { size });
+  if (/^int\d*$/.test(label) && raw >> (bits - 1n) === 1n) {
+    return raw - (1n << bits);
+  }
+  return raw;
+};
+
+export const buildStorageLayoutProof = async (
+  opts: BuildStorageLayoutProofOpts
+) => {
+  const { layout, variable, ...storageProofOpts } = opts;
+  const resolved = resolveStorageVariable(layout, variable);
+  const storageProofInputOpts = { ...storageProofOpts, slot: resolved.slot };
+
+  // The value is decoded from the proven leaf, never from the RPC's `value` field.
+  const { storageValueRlp } = await verifyStorageSlot(
+    opts.proof,
+    resolved.slot
+  );
+
+  // An unset slot is absent from the trie, it is proven with an exclusion proof and reads as zero.
+  if (!storageValueRlp) {
+    return {
+      inputs: await buildStorageExclusionProof(storageProofInputOpts),
+      variable: resolved,
+      value: decodeStorageValue(resolved, 0n),
+      exclusion: true,
+    };
+  }
+
+  return {
+    inputs: await buildStorageProof(storageProofInputOpts),
+    variable: resolved,
+    value: decodeStorageValue(
+      resolved,
+      hexToBigInt(fromRlp(storageValueRlp, 'hex') as Hex)
+    ),
+    exclusion: false,
+  };
+};
+
+export const getStorageLayoutProof = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetStorageLayoutProofOpts
+) => {
+  const {
+    address,
+    layout,
+    variable,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
+    ...getBlockOpts
+  } = opts;
+  const { slot } = resolveStorageVariable(layout, variable);
+  const block = await publicClient.getBlock(getBlockOpts);
+
+  const proof = await publicClient.getProof({
+    address,
+    storageKeys: [slot],
+    blockNumber: block.number ?? undefined,
+  });
+
+  return await buildStorageLayoutProof({
+    proof,
+    layout,
+    variable,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
+  });
+};
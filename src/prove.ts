@@ -0,0 +1,148 @@
+import os from 'node:os';
+import type { CompiledCircuit } from '@noir-lang/noir_js';
+import { Prover } from '@zkpersona/noir-helpers';
+import { type Hex, type PublicClient, bytesToHex, hexToBytes } from 'viem';
+import { getAccountExclusionProof, getAccountProof } from './account';
+import { getAccountCodeProof } from './code';
+import { getBlockHeader, getBlockHeaderChain } from './header';
+import { toInputMap } from './helpers';
+import {
+  type GetReceiptProofsOpts,
+  combineReceiptProofs,
+  getReceiptProof,
+  getReceiptProofs,
+} from './receipt';
+import {
+  getStorageExclusionProof,
+  getStorageProof,
+  getStorageProofs,
+} from './storage';
+import {
+  type GetTransactionProofsOpts,
+  combineTransactionProofs,
+  getTransactionProof,
+  getTransactionProofs,
+} from './transaction';
+import { getWithdrawalProof } from './withdrawal';
+
+export type ProverOpts = {
+  circuit: CompiledCircuit;
+  threads?: number;
+};
+
+export type SerializedProof = {
+  proof: Hex;
+  publicInputs: string[];
+};
+
+// Durations are in milliseconds, `build` is only set when the inputs were fetched.
+export type ProofTiming = {
+  build?: number;
+  prove: number;
+};
+
+export type ProofResult = SerializedProof & {
+  timing: ProofTiming;
+};
+
+const provers = new WeakMap<CompiledCircuit, Map<number, Prover>>();
+
+// Backends are costly to set up, so one prover is kept per circuit and thread count.
+const getProver = (opts: ProverOpts) => {
+  const { circuit, threads = os.cpus().length } = opts;
+
+  let byThreads = provers.get(circuit);
+  if (!byThreads) {
+    byThreads = new Map();
+    provers.set(circuit, byThreads);
+  }
+
+  let prover = byThreads.get(threads);
+  if (!prover) {
+    prover = new Prover(circuit, { type: 'honk', options: { threads } });
+    byThreads.set(threads, prover);
+  }
+  return prover;
+};
+
+export const proveInputs = async (
+  inputs: object,
+  opts: ProverOpts
+): Promise<ProofResult> => {
+  const prover = getProver(opts);
+
+  const start = performance.now();
+  const { proof, publicInputs } = await prover.fullProve(toInputMap(inputs), {
+    type: 'honk',
+  });
+
+  return {
+    proof: bytesToHex(proof),
+    publicInputs,
+    timing: { prove: performance.now() - start },
+  };
+};
+
+export const verifyProof = async (
+  proof: SerializedProof,
+  opts: ProverOpts
+): Promise<boolean> => {
+  const prover = getProver(opts);
+
+  return await prover.verify(
+    { proof: hexToBytes(proof.proof), publicInputs: proof.publicInputs },
+    { type: 'honk' }
+  );
+};
+
+const withProof =
+  <Opts>(
+    getInputs: (publicClient: PublicClient, opts: Opts) => Promise<object>
+  ) =>
+  async (
+    publicClient: PublicClient,
+    opts: Opts & ProverOpts
+  ): Promise<ProofResult> => {
+    const { circuit, threads, ...getInputsOpts } = opts;
+
+    const start = performance.now();
+    const inputs = await getInputs(publicClient, getInputsOpts as Opts);
+    const build = performance.now() - start;
+
+    const result = await proveInputs(inputs, { circuit, threads });
+    return { ...result, timing: { ...result.timing, build } };
+  };
+
+export const proveAccount = withProof(getAccountProof);
+export const proveAccountExclusion = withProof(getAccountExclusionProof);
+export const proveAccountCode = withProof(getAccountCodeProof);
+export const proveStorage = withProof(getStorageProof);
+export const proveStorageExclusion = withProof(getStorageExclusionProof);
+export const proveStorageProofs = withProof(getStorageProofs);
+export const proveHeader = withProof(getBlockHeader);
+export const proveHeaderChain = withProof(getBlockHeaderChain);
+export const proveTransaction = withProof(getTransactionProof);
+export const proveTransactionProofs = withProof(
+  async (publicClient, opts: GetTransactionProofsOpts) =>
+    combineTransactionProofs(await getTransactionProofs(publicClient, opts))
+);
+export const proveReceipt = withProof(getReceiptProof);
+export const proveReceiptProofs = withProof(
+  async (publicClient, opts: GetReceiptProofsOpts) =>
+    combineReceiptProofs(await getReceiptProofs(publicClient, opts))
+);
+export const proveWithdrawal = withProof(getWithdrawalProof);
+
+export const verifyAccount = verifyProof;
+export const verifyAccountExclusion = verifyProof;
+export const verifyAccountCode = verifyProof;
+export const verifyStorage = verifyProof;
+export const verifyStorageExclusion = verifyProof;
+export const verifyStorageProofs = verifyProof;
+export const verifyHeader = verifyProof;
+export const verifyHeaderChain = verifyProof;
+export const verifyTransaction = verifyProof;
+export const verifyTransactionProofs = verifyProof;
+export const verifyReceipt = verifyProof;
+export const verifyReceiptProofs = verifyProof;
+export const verifyWithdrawal = verifyProof;
@@ -1,7 +1,9 @@
 import { Trie } from '@ethereumjs/trie';
-import { FixedSizeArray, U8, U64 } from '@zkpersona/noir-helpers';
+import { U8, U64 } from '@zkpersona/noir-helpers';
 import {
+  type Block,
   type Chain,
+  type GetBlockParameters,
   type GetTransactionReceiptParameters,
   type Hex,
   type PublicClient,
@@ -12,12 +14,18 @@ import {
   toHex,
 } from 'viem';
 
+import { type CacheOpts, createTrieProver } from './cache';
 import {
+  type BlockPayload,
+  type ProofVerifyOpts,
+  type ReceiptLogFilter,
   encodeIndex,
-  leftPad,
+  encodeProofInput,
+  findReceiptLogIndex,
   parseBytes32,
+  parseReceiptLog,
+  parseRpcBlock,
   parseTxReceiptPartial,
-  rightPad,
   serializeReceipt,
   transactionTypeToHex,
 } from './helpers';
@@ -35,68 +43,114 @@ type ExtendedPublicRpcSchema = [
   },
 ];
 
-export type GetReceiptProofOpts = GetTransactionReceiptParameters & {
+type ReceiptProofSizeOpts = {
   maxDepthNoLeaf?: number;
   maxEncodedReceiptLength?: number;
   maxLeafLength?: number;
-  getBlockReceipts?: (
-    opts: GetBlockReceiptsParameters
-  ) => Promise<TransactionReceipt<Hex, Hex, Hex, Hex>[]>;
 };
 
-export const getReceiptProof = async <T extends PublicClient>(
-  publicClient: T,
-  opts: GetReceiptProofOpts
-) => {
-  const extendedClient = publicClient.extend((client) => ({
-    async getBlockReceipts(opts: GetBlockReceiptsParameters) {
-      return await (
-        client as PublicClient<
-          Transport,
-          Chain,
-          undefined,
-          ExtendedPublicRpcSchema
-        >
-      ).request({
-        method: 'eth_getBlockReceipts',
-        params: [toHex(opts.blockNumber)],
-      });
-    },
-  }));
-  const {
-    maxDepthNoLeaf = 4,
-    maxEncodedReceiptLength = 256,
-    maxLeafLength = 256,
-    getBlockReceipts,
-    ...getTransactionReceiptOpts
-  } = opts;
+type ReceiptLogOpts = {
+  log?: ReceiptLogFilter;
+  maxLogs?: number;
+  maxTopics?: number;
+  maxLogDataLength?: number;
+};
 
-  const receipt = await publicClient.getTransactionReceipt(
-    getTransactionReceiptOpts
-  );
+export type GetReceiptProofOpts = GetTransactionReceiptParameters &
+  ReceiptProofSizeOpts &
+  ReceiptLogOpts &
+  ProofVerifyOpts &
+  CacheOpts & {
+    getBlockReceipts?: (
+      opts: GetBlockReceiptsParameters
+    ) => Promise<TransactionReceipt<Hex, Hex, Hex, Hex>[]>;
+  };
 
-  if (!receipt.blockNumber) throw new Error('Transaction Receipt not found');
+export type BuildReceiptProofOpts = ReceiptProofSizeOpts &
+  ReceiptLogOpts &
+  ProofVerifyOpts &
+  CacheOpts & {
+    block: BlockPayload;
+    receipts: TransactionReceipt<Hex, Hex, Hex, Hex>[];
+    transactionIndex: number;
+  };
 
-  const block = await publicClient.getBlock({
-    blockNumber: receipt.blockNumber,
-  });
+export type GetReceiptProofsOpts = GetBlockParameters &
+  ReceiptProofSizeOpts &
+  ProofVerifyOpts &
+  CacheOpts & {
+    transactionIndices?: number[];
+    hashes?: Hex[];
+    getBlockReceipts?: GetReceiptProofOpts['getBlockReceipts'];
+  };
 
-  let blockReceipts: TransactionReceipt<Hex, Hex, Hex, Hex>[];
+export type BuildReceiptProofsOpts = ReceiptProofSizeOpts &
+  ProofVerifyOpts &
+  CacheOpts & {
+    block: BlockPayload;
+    receipts: TransactionReceipt<Hex, Hex, Hex, Hex>[];
+    transactionIndices: number[];
+  };
 
-  if (getBlockReceipts) {
-    blockReceipts = await getBlockReceipts({ blockNumber: block.number });
-  } else {
-    blockReceipts = await extendedClient.getBlockReceipts({
-      blockNumber: block.number,
-    });
-  }
+type ReceiptsTrie = {
+  block: Block;
+  receipts: TransactionReceipt<Hex, Hex, Hex, Hex>[];
+  createProof: (key: Uint8Array, value: Uint8Array) => Promise<Uint8Array[]>;
+};
+
+// The receipts trie of a block is built at most once, on the first proof missing from the cache.
+const buildReceiptsTrie = (
+  opts: Pick<BuildReceiptProofOpts, 'block' | 'receipts' | 'cache'>
+): ReceiptsTrie => {
+  const block = parseRpcBlock(opts.block);
+
+  const receipts = structuredClone(opts.receipts);
+
+  const createProof = createTrieProver(
+    block.receiptsRoot,
+    async () => {
+      const receiptsTrie = new Trie();
+
+      for await (const item of receipts) {
+        const key = encodeIndex(hexToNumber(item.transactionIndex));
+        const value = serializeReceipt(item);
+        await receiptsTrie.put(key, value);
+      }
 
-  const receiptsTrie = new Trie();
+      if (block.receiptsRoot !== toHex(receiptsTrie.root())) {
+        throw new Error(
+          'Receipts trie root does not match block receipts root'
+        );
+      }
 
-  const receipts = structuredClone(blockReceipts);
+      return receiptsTrie;
+    },
+    opts.cache
+  );
+
+  return { block, receipts, createProof };
+};
+
+const encodeReceiptProof = async (
+  trie: ReceiptsTrie,
+  opts: Omit<BuildReceiptProofOpts, 'block' | 'receipts' | 'cache'>
+) => {
+  const {
+    maxDepthNoLeaf = 4,
+    // Match `verify_receipt` and `verify_receipt_log`, receipts carry a 256 byte bloom.
+    maxEncodedReceiptLength = 512,
+    maxLeafLength = 512,
+    // Matches `MAX_LOGS_COUNT` of `verify_receipt_log`.
+    maxLogs = 8,
+    maxTopics = 4,
+    maxLogDataLength = 256,
+    transactionIndex,
+    verify,
+  } = opts;
+  const { block, receipts, createProof } = trie;
 
-  const receiptKey = encodeIndex(receipt.transactionIndex);
-  const requestedReceipt = receipts[receipt.transactionIndex];
+  const receiptKey = encodeIndex(transactionIndex);
+  const requestedReceipt = receipts[transactionIndex];
 
   if (!requestedReceipt) {
     throw new Error('Requested Receipt not found.');
@@ -109,73 +163,215 @@ export const getReceiptProof = async <T extends PublicClient>(
     );
   }
 
-  for await (const item of receipts) {
-    const key = encodeIndex(hexToNumber(item.transactionIndex));
-    const value = serializeReceipt(item);
-    await receiptsTrie.put(key, value);
-  }
+  const receiptProof = await createProof(receiptKey, receiptValue);
+  const receiptsRoot = parseBytes32(block.receiptsRoot);
 
-  if (block.receiptsRoot !== toHex(receiptsTrie.root())) {
-    throw new Error('Receipts trie root does not match block receipts root');
+  const logIndex = opts.log
+    ? findReceiptLogIndex(requestedReceipt.logs, opts.log)
+    : undefined;
+
+  // The circuit decodes at most `maxLogs` logs to find the selected one.
+  if (logIndex !== undefined) {
+    if (logIndex >= maxLogs) {
+      throw new Error(`Log index (${logIndex}) exceeds max logs (${maxLogs})`);
+    }
+    if (requestedReceipt.logs.length > maxLogs) {
+      throw new Error(
+        `Receipt logs count (${requestedReceipt.logs.length}) exceeds max logs (${maxLogs})`
+      );
+    }
   }
 
-  const receiptProof = await receiptsTrie.createProof(receiptKey);
-  const leafNode = receiptProof.at(-1) ?? '0x0';
-  const nodes = receiptProof.slice(0, -1);
+  const proofInput = encodeProofInput({
+    name: 'Receipt',
+    key: receiptKey,
+    value: receiptValue,
+    proof: receiptProof,
+    root: block.receiptsRoot,
+    verify,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength: 8,
+    maxValueLength: maxEncodedReceiptLength,
+  });
 
-  if (maxLeafLength < leafNode.length) {
-    throw new Error(
-      `Leaf node length (${leafNode.length}) exceeds max leaf length (${maxLeafLength})`
-    );
+  return {
+    block_number: new U64(block.number),
+    transaction_index: new U64(transactionIndex),
+    transaction_type: new U8(
+      transactionTypeToHex(requestedReceipt.type) ?? '0x0'
+    ),
+    receipt: parseTxReceiptPartial(requestedReceipt),
+    receipt_proof: proofInput,
+    receipt_root: receiptsRoot,
+    ...(logIndex !== undefined && {
+      log_index: new U64(logIndex),
+      log: parseReceiptLog(
+        // biome-ignore lint/style/noNonNullAssertion: <explanation>
+        requestedReceipt.logs[logIndex]!,
+        maxTopics,
+        maxLogDataLength
+      ),
+    }),
+  };
+};
+
+export const buildReceiptProof = async (opts: BuildReceiptProofOpts) => {
+  const { block, receipts, cache, ...receiptProofOpts } = opts;
+  const trie = buildReceiptsTrie({ block, receipts, cache });
+  return await encodeReceiptProof(trie, receiptProofOpts);
+};
+
+// Proves several receipts of one block, the receipts trie is built a single time.
+export const buildReceiptProofs = async (opts: BuildReceiptProofsOpts) => {
+  const { block, receipts, cache, transactionIndices, ...receiptProofOpts } =
+    opts;
+
+  if (transactionIndices.length === 0) {
+    throw new Error('At least one transaction index is required');
   }
 
-  const nodesData = nodes.map((val) => {
-    const items = rightPad(val, 532).map((x) => new U8(x));
-    return new FixedSizeArray(532, items);
-  });
+  const trie = buildReceiptsTrie({ block, receipts, cache });
 
-  if (nodesData.length > maxDepthNoLeaf) {
-    throw new Error(
-      `Receipt Proof depth (${nodesData.length}) exceeds Max Depth provided (${maxDepthNoLeaf})`
+  const receiptProofs = [];
+  for (const transactionIndex of transactionIndices) {
+    receiptProofs.push(
+      await encodeReceiptProof(trie, { ...receiptProofOpts, transactionIndex })
     );
   }
+  return receiptProofs;
+};
 
-  while (nodesData.length !== maxDepthNoLeaf) {
-    nodesData.push(new FixedSizeArray(532, new Array(532).fill(new U8(0))));
-  }
+// Lays out receipt proofs of one block as the arrays `verify_receipt_proofs` takes.
+export const combineReceiptProofs = (
+  receiptProofs: Awaited<ReturnType<typeof buildReceiptProof>>[]
+) => {
+  const [first] = receiptProofs;
+  if (!first) throw new Error('At least one receipt proof is required');
 
-  const proof = {
-    nodes: new FixedSizeArray(maxDepthNoLeaf, nodesData),
-    leaf: new FixedSizeArray(
-      maxLeafLength,
-      rightPad(leafNode, maxLeafLength).map((x) => new U8(x))
-    ),
-    depth: new U64(receiptProof.length),
+  return {
+    block_number: first.block_number,
+    transaction_indices: receiptProofs.map((p) => p.transaction_index),
+    transaction_types: receiptProofs.map((p) => p.transaction_type),
+    receipts: receiptProofs.map((p) => p.receipt),
+    receipt_proofs: receiptProofs.map((p) => p.receipt_proof),
+    receipt_root: first.receipt_root,
   };
+};
 
-  const receiptsRoot = parseBytes32(block.receiptsRoot);
+// Uses `getBlockReceipts` when given, e.g. for nodes without `eth_getBlockReceipts`.
+export const fetchBlockReceipts = async <T extends PublicClient>(
+  publicClient: T,
+  blockNumber: bigint,
+  getBlockReceipts: GetReceiptProofOpts['getBlockReceipts']
+) => {
+  if (getBlockReceipts) return await getBlockReceipts({ blockNumber });
+
+  return await (
+    publicClient as PublicClient<
+      Transport,
+      Chain,
+      undefined,
+      ExtendedPublicRpcSchema
+    >
+  ).request({
+    method: 'eth_getBlockReceipts',
+    params: [toHex(blockNumber)],
+  });
+};
+
+export const getReceiptProof = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetReceiptProofOpts
+) => {
+  const {
+    maxDepthNoLeaf,
+    maxEncodedReceiptLength,
+    maxLeafLength,
+    log,
+    maxLogs,
+    maxTopics,
+    maxLogDataLength,
+    getBlockReceipts,
+    verify,
+    cache,
+    ...getTransactionReceiptOpts
+  } = opts;
+
+  const receipt = await publicClient.getTransactionReceipt(
+    getTransactionReceiptOpts
+  );
+
+  if (!receipt.blockNumber) throw new Error('Transaction Receipt not found');
 
-  const key = new FixedSizeArray(
-    8,
-    leftPad(receiptKey, 8).map((x) => new U8(x))
+  const block = await publicClient.getBlock({
+    blockNumber: receipt.blockNumber,
+  });
+
+  const blockReceipts = await fetchBlockReceipts(
+    publicClient,
+    block.number,
+    getBlockReceipts
   );
-  const value = new FixedSizeArray(
+
+  return await buildReceiptProof({
+    block,
+    receipts: blockReceipts,
+    transactionIndex: receipt.transactionIndex,
+    maxDepthNoLeaf,
+    maxEncodedReceiptLength,
+    maxLeafLength,
+    log,
+    maxLogs,
+    maxTopics,
+    maxLogDataLength,
+    verify,
+    cache,
+  });
+};
+
+// Fetches the block and its receipts once, receipts are selected by index or transaction hash.
+export const getReceiptProofs = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetReceiptProofsOpts
+) => {
+  const {
+    transactionIndices = [],
+    hashes = [],
+    maxDepthNoLeaf,
     maxEncodedReceiptLength,
-    leftPad(receiptValue, maxEncodedReceiptLength).map((x) => new U8(x))
+    maxLeafLength,
+    getBlockReceipts,
+    verify,
+    cache,
+    ...getBlockOpts
+  } = opts;
+
+  const block = await publicClient.getBlock(getBlockOpts);
+  if (block.number === null) throw new Error('Block is pending');
+
+  const blockReceipts = await fetchBlockReceipts(
+    publicClient,
+    block.number,
+    getBlockReceipts
   );
 
-  const proofInput = {
-    key,
-    value,
-    proof,
-  };
+  const hashIndices = hashes.map((hash) => {
+    const receipt = blockReceipts.find(
+      (r) => r.transactionHash.toLowerCase() === hash.toLowerCase()
+    );
+    if (!receipt) throw new Error(`Transaction Receipt not found: ${hash}`);
+    return hexToNumber(receipt.transactionIndex);
+  });
 
-  return {
-    block_number: new U64(block.number),
-    transaction_index: new U64(receipt.transactionIndex),
-    transaction_type: new U8(transactionTypeToHex(receipt.type) ?? '0x0'),
-    receipt: parseTxReceiptPartial(requestedReceipt),
-    receipt_proof: proofInput,
-    receipt_root: receiptsRoot,
-  };
+  return await buildReceiptProofs({
+    block,
+    receipts: blockReceipts,
+    transactionIndices: [...transactionIndices, ...hashIndices],
+    maxDepthNoLeaf,
+    maxEncodedReceiptLength,
+    maxLeafLength,
+    verify,
+    cache,
+  });
 };
@@ -0,0 +1,136 @@
+import {
+  type AbiParameter,
+  type Hex,
+  concat,
+  encodeAbiParameters,
+  hexToBigInt,
+  isHex,
+  keccak256,
+  numberToHex,
+  stringToHex,
+} from 'viem';
+
+const SLOT_SIZE = 32;
+
+export type StorageSlotMappingKey = {
+  kind: 'mapping';
+  keyType: AbiParameter['type'];
+  key: unknown;
+};
+
+export type StorageSlotArrayIndex = {
+  kind: 'array' | 'fixedArray';
+  index: bigint | number;
+  // Size of a single element in bytes, elements that fit several times in a slot are packed.
+  elementSize?: number;
+};
+
+export type StorageSlotStructMember = {
+  kind: 'member';
+  slot: bigint | number;
+  offset?: number;
+};
+
+export type StorageSlotPathItem =
+  | StorageSlotMappingKey
+  | StorageSlotArrayIndex
+  | StorageSlotStructMember;
+
+// `offset` follows solc's storage layout convention: bytes counted from the lower-order end of the slot.
+export type StorageSlot = {
+  slot: Hex;
+  offset: number;
+};
+
+const toSlotHex = (slot: bigint) => numberToHex(slot, { size: SLOT_SIZE });
+
+const toSlotBigInt = (slot: bigint | number | Hex) =>
+  typeof slot === 'string' ? hexToBigInt(slot) : BigInt(slot);
+
+export const encodeMappingKey = (
+  keyType: AbiParameter['type'],
+  key: unknown
+): Hex => {
+  // `string` and `bytes` keys are hashed unpadded, every other type is ABI encoded to 32 bytes.
+  if (keyType === 'string') {
+    if (typeof key !== 'string') {
+      throw new Error('Mapping key of type string must be a string');
+    }
+    return stringToHex(key);
+  }
+  if (keyType === 'bytes') {
+    if (typeof key !== 'string' || !isHex(key)) {
+      throw new Error('Mapping key of type bytes must be a hex string');
+    }
+    return key;
+  }
+  return encodeAbiParameters([{ type: keyType }], [key]);
+};
+
+export const getMappingSlot = (
+  slot: bigint | number | Hex,
+  keyType: AbiParameter['type'],
+  key: unknown
+): Hex => {
+  return keccak256(
+    concat([encodeMappingKey(keyType, key), toSlotHex(toSlotBigInt(slot))])
+  );
+};
+
+export const getArrayDataSlot = (slot: bigint | number | Hex): Hex => {
+  return keccak256(toSlotHex(toSlotBigInt(slot)));
+};
+
+export const getStorageSlot = (
+  baseSlot: bigint | number | Hex,
+  path: StorageSlotPathItem[] = []
+): StorageSlot => {
+  let slot = toSlotBigInt(baseSlot);
+  let offset = 0;
+
+  for (const item of path) {
+    if (offset !== 0) {
+      throw new Error(
+        'Packed value at non-zero byte offset cannot be followed by another path item'
+      );
+    }
+
+    if (item.kind === 'mapping') {
+      slot = hexToBigInt(getMappingSlot(slot, item.keyType, item.key));
+      continue;
+    }
+
+    if (item.kind === 'member') {
+      slot += BigInt(item.slot);
+      offset = item.offset ?? 0;
+      continue;
+    }
+
+    const { elementSize = SLOT_SIZE } = item;
+    const index = BigInt(item.index);
+    const start =
+      item.kind === 'array' ? hexToBigInt(getArrayDataSlot(slot)) : slot;
+
+    if (elementSize <= 0) {
+      throw new Error('Array element size must be greater than zero');
+    }
+
+    if (elementSize >= SLOT_SIZE) {
+      const slotsPerElement = BigInt(Math.ceil(elementSize / SLOT_SIZE));
+      slot = start + index * slotsPerElement;
+    } else {
+      const elementsPerSlot = BigInt(Math.floor(SLOT_SIZE / elementSize));
+      slot = start + index / elementsPerSlot;
+      offset = Number(index % elementsPerSlot) * elementSize;
+    }
+  }
+
+  if (offset < 0 || offset >= SLOT_SIZE) {
+    throw new Error(`Byte offset (${offset}) must be within a storage slot`);
+  }
+
+  return {
+    slot: toSlotHex(slot % 2n ** 256n),
+    offset,
+  };
+};
@@ -1,122 +1,315 @@
 import { Trie } from "@ethereumjs/trie";
-import { FixedSizeArray, U8, U64 } from "@zkpersona/noir-helpers";
 import {
+  type Address,
   type GetBlockParameters,
   type Hex,
   type PublicClient,
+  hexToBigInt,
   hexToBytes,
   keccak256,
-  type Address,
-  encodeAbiParameters,
 } from "viem";
-import { leftPad, parseBytes32, rightPad } from "./helpers";
+import {
+  type BuildAccountProofOpts,
+  buildAccountProof,
+  verifyAccountProof,
+} from "./account";
+import {
+  type BlockPayload,
+  type ProofPayload,
+  type ProofSizeOpts,
+  type ProofVerifyOpts,
+  EMPTY_TRIE_ROOT,
+  bytesEqual,
+  encodeExclusionProofInput,
+  encodeProofInput,
+  parseBytes32,
+  parseRpcProof,
+} from "./helpers";
+import { getMappingSlot } from "./slot";
+
+export type StorageProofSizeOpts = Partial<ProofSizeOpts>;
 
 export type GetStorageProofOpts = {
   address: Hex;
   slot: Hex;
-} & GetBlockParameters;
+} & StorageProofSizeOpts &
+  ProofVerifyOpts &
+  GetBlockParameters;
+
+export type BuildStorageProofOpts = StorageProofSizeOpts &
+  ProofVerifyOpts & {
+    proof: ProofPayload;
+    slot: Hex;
+  };
+
+export type GetStorageProofsOpts = {
+  address: Hex;
+  slots: Hex[];
+  accountProofOpts?: Omit<BuildAccountProofOpts, "block" | "proof">;
+} & StorageProofSizeOpts &
+  ProofVerifyOpts &
+  GetBlockParameters;
+
+export type BuildStorageProofsOpts = StorageProofSizeOpts &
+  ProofVerifyOpts & {
+    block: BlockPayload;
+    proof: ProofPayload;
+    slots: Hex[];
+    accountProofOpts?: Omit<BuildAccountProofOpts, "block" | "proof">;
+  };
 
 // mapping(address => uint256) internal balanceAndBlacklistStates;
+/** @deprecated Use `getStorageLayoutProof` or `getMappingSlot` instead. */
 export const getUSDCBalanceStorageSlot = (address: Address) => {
-  const slot = 9n;
-
-  const finalSlot = keccak256(
-    encodeAbiParameters(
-      [
-        {
-          name: "address",
-          type: "address",
-        },
-        {
-          name: "slot",
-          type: "uint256",
-        },
-      ],
-      [address, slot],
-    ),
+  return getMappingSlot(9n, "address", address);
+};
+
+// Checks the proof of `slot` against the storage root, an empty slot has no RLP value.
+export const verifyStorageSlot = async (proof: ProofPayload, slot: Hex) => {
+  const { storageHash, storageProof: storageProofs } = parseRpcProof(proof);
+
+  const storageProof = storageProofs.find(
+    (p) => hexToBigInt(p.key) === hexToBigInt(slot),
+  )?.proof;
+
+  if (!storageProof) {
+    throw new Error("Storage Proof not found.");
+  }
+
+  const slotHash = keccak256(slot, "bytes");
+
+  // An account without storage returns an empty proof, only valid against the empty trie root.
+  if (storageProof.length === 0) {
+    if (!bytesEqual(Array.from(hexToBytes(storageHash)), EMPTY_TRIE_ROOT)) {
+      throw new Error(
+        `Storage Proof is empty but the storage root (${storageHash}) is not the empty trie root`,
+      );
+    }
+    return { storageHash, storageProof, slotHash, storageValueRlp: null };
+  }
+
+  const storageTrie = new Trie({ root: hexToBytes(storageHash) });
+  const storageValueRlp = await storageTrie.verifyProof(
+    storageTrie.root(),
+    slotHash,
+    storageProof.map((p) => hexToBytes(p)),
   );
-  return finalSlot;
+
+  return { storageHash, storageProof, slotHash, storageValueRlp };
+};
+
+export const buildStorageProof = async (opts: BuildStorageProofOpts) => {
+  const {
+    slot,
+    maxDepthNoLeaf = 6,
+    maxLeafLength = 69,
+    maxKeyLength = 66,
+    maxValueLength = 33,
+    verify,
+  } = opts;
+  const { storageHash, storageProof, slotHash, storageValueRlp } =
+    await verifyStorageSlot(opts.proof, slot);
+
+  if (!storageValueRlp) {
+    throw new Error("Storage Proof verification failed");
+  }
+
+  const storageRoot = parseBytes32(storageHash);
+  const proofInput = encodeProofInput({
+    name: "Storage",
+    key: slotHash,
+    value: storageValueRlp,
+    proof: storageProof,
+    root: storageHash,
+    verify,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+  });
+
+  return {
+    storage_proof: proofInput,
+    storage_root: storageRoot,
+  };
 };
 
 export const getStorageProof = async <T extends PublicClient>(
   publicClient: T,
   opts: GetStorageProofOpts,
 ) => {
-  const { address, slot, ...getBlockOpts } = opts;
+  const {
+    address,
+    slot,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
+    ...getBlockOpts
+  } = opts;
   const block = await publicClient.getBlock(getBlockOpts);
 
-  const res = await publicClient.getProof({
+  const proof = await publicClient.getProof({
     address,
     storageKeys: [slot],
     blockNumber: block.number ?? undefined,
   });
 
-  console.log(slot);
-  console.log(keccak256(slot, "bytes"));
+  return await buildStorageProof({
+    proof,
+    slot,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
+  });
+};
 
-  const storageProof = res.storageProof[0]?.proof;
+// Proves that `slot` holds zero, such slots are absent from the storage trie.
+export const buildStorageExclusionProof = async (
+  opts: BuildStorageProofOpts,
+) => {
+  const {
+    slot,
+    maxDepthNoLeaf = 6,
+    maxLeafLength = 69,
+    maxKeyLength = 66,
+    maxValueLength = 33,
+    verify,
+  } = opts;
+  const { storageHash, storageProof, slotHash, storageValueRlp } =
+    await verifyStorageSlot(opts.proof, slot);
 
-  if (!storageProof) {
-    throw new Error("Storage Proof not found.");
+  if (storageValueRlp) {
+    throw new Error(
+      "Storage slot is not empty, use buildStorageProof to prove its value",
+    );
   }
 
-  const storageTrie = new Trie({ root: hexToBytes(res.storageHash) });
-  const storageProofBuffers = storageProof.map((p) => hexToBytes(p));
-  const storageValueRlp = await storageTrie.verifyProof(
-    storageTrie.root(),
-    keccak256(slot, "bytes"),
-    storageProofBuffers,
-  );
+  const proofInput = encodeExclusionProofInput({
+    name: "Storage",
+    key: slotHash,
+    proof: storageProof,
+    root: storageHash,
+    verify,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+  });
 
-  if (!storageValueRlp) {
-    throw new Error("Storage Proof verification failed");
-  }
+  return {
+    storage_proof: proofInput,
+    storage_root: parseBytes32(storageHash),
+  };
+};
+
+export const getStorageExclusionProof = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetStorageProofOpts,
+) => {
+  const {
+    address,
+    slot,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
+    ...getBlockOpts
+  } = opts;
+  const block = await publicClient.getBlock(getBlockOpts);
 
-  const leafNode = storageProof.at(-1) ?? "0x0";
-  const nodes = storageProof.slice(0, -1);
+  const proof = await publicClient.getProof({
+    address,
+    storageKeys: [slot],
+    blockNumber: block.number ?? undefined,
+  });
 
-  const nodesData = nodes.map((val) => {
-    const items = rightPad(val, 532).map((x) => new U8(x));
-    return new FixedSizeArray(532, items);
+  return await buildStorageExclusionProof({
+    proof,
+    slot,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
   });
+};
+
+export const buildStorageProofs = async (opts: BuildStorageProofsOpts) => {
+  const { block, slots, accountProofOpts, ...storageProofOpts } = opts;
+  const proof = parseRpcProof(opts.proof);
 
-  if (nodesData.length > 6) {
+  if (slots.length === 0) {
+    throw new Error("At least one storage slot is required");
+  }
+
+  const accountProof = await buildAccountProof({
+    block,
+    proof,
+    verify: storageProofOpts.verify,
+    ...accountProofOpts,
+  });
+
+  // The slots are proven against the storage root of the proven account, not the RPC's.
+  const { storageHash } = await verifyAccountProof({ block, proof });
+  if (storageHash !== proof.storageHash.toLowerCase()) {
     throw new Error(
-      "Storage Proof can have at most 6 nodes excluding the leaf node",
+      `Storage hash (${proof.storageHash}) does not match the proven account storage root (${storageHash})`,
     );
   }
 
-  while (nodesData.length !== 6) {
-    nodesData.push(new FixedSizeArray(532, new Array(532).fill(new U8(0))));
+  const storageProofs = [];
+  for (const slot of slots) {
+    const { storage_proof } = await buildStorageProof({
+      ...storageProofOpts,
+      proof,
+      slot,
+    });
+    storageProofs.push(storage_proof);
   }
 
-  const proof = {
-    nodes: new FixedSizeArray(6, nodesData),
-    leaf: new FixedSizeArray(
-      69,
-      rightPad(leafNode, 69).map((x) => new U8(x)),
-    ),
-    depth: new U64(storageProof.length),
+  return {
+    ...accountProof,
+    storage_proofs: storageProofs,
   };
+};
 
-  const storageRoot = parseBytes32(res.storageHash);
-  const key = new FixedSizeArray(
-    66,
-    leftPad(keccak256(slot, "bytes"), 66).map((x) => new U8(x)),
-  );
-  const value = new FixedSizeArray(
-    33,
-    leftPad(storageValueRlp, 33).map((x) => new U8(x)),
-  );
+export const getStorageProofs = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetStorageProofsOpts,
+) => {
+  const {
+    address,
+    slots,
+    accountProofOpts,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
+    ...getBlockOpts
+  } = opts;
+  const block = await publicClient.getBlock(getBlockOpts);
 
-  const proofInput = {
-    key,
-    value,
-    proof,
-  };
+  const proof = await publicClient.getProof({
+    address,
+    storageKeys: slots,
+    blockNumber: block.number ?? undefined,
+  });
 
-  return {
-    storage_proof: proofInput,
-    storage_root: storageRoot,
-  };
+  return await buildStorageProofs({
+    block,
+    proof,
+    slots,
+    accountProofOpts,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength,
+    maxValueLength,
+    verify,
+  });
 };
@@ -0,0 +1,459 @@
+import { Trie } from '@ethereumjs/trie';
+import {
+  type Address,
+  type Hex,
+  type PublicClient,
+  type RpcBlock,
+  type RpcLog,
+  type RpcProof,
+  type RpcTransaction,
+  type TransactionReceipt,
+  type TransactionSerializable,
+  type Withdrawal,
+  bytesToHex,
+  createPublicClient,
+  custom,
+  formatBlock,
+  hexToBigInt,
+  hexToBytes,
+  keccak256,
+  numberToHex,
+  pad,
+  parseTransaction,
+  toHex,
+  toRlp,
+  trim,
+  zeroAddress,
+  zeroHash,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  encodeIndex,
+  getHeaderFork,
+  getHeaderForkSchedule,
+  serializeBlockHeader,
+  serializeReceipt,
+  serializeWithdrawal,
+} from './helpers';
+
+// Well known development key, only ever used to sign synthetic transactions.
+const DEFAULT_PRIVATE_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const EMPTY_UNCLES_HASH = keccak256(toRlp([]));
+const EMPTY_REQUESTS_HASH =
+  '0xe3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+export type SyntheticAccount = {
+  address: Address;
+  nonce?: bigint;
+  balance?: bigint;
+  code?: Hex;
+  // Slot to value, zero values are left out of the storage trie.
+  storage?: Record<Hex, Hex>;
+};
+
+export type SyntheticLog = {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+};
+
+export type SyntheticTransaction = Omit<TransactionSerializable, 'chainId'> & {
+  logs?: SyntheticLog[];
+  gasUsed?: bigint;
+  status?: 'success' | 'reverted';
+};
+
+// Amounts are in Gwei, the index defaults to the position of the withdrawal in the block.
+export type SyntheticWithdrawal = {
+  index?: bigint;
+  validatorIndex: bigint;
+  address: Address;
+  amount: bigint;
+};
+
+export type CreateSyntheticChainOpts = {
+  chainId?: number;
+  blockNumber?: bigint;
+  timestamp?: bigint;
+  parentHash?: Hex;
+  baseFeePerGas?: bigint;
+  privateKey?: Hex;
+  accounts?: SyntheticAccount[];
+  transactions?: SyntheticTransaction[];
+  withdrawals?: SyntheticWithdrawal[];
+};
+
+const toQuantity = (value: bigint | number) => numberToHex(value);
+
+// RLP integers carry no leading zeros.
+const toRlpQuantity = (value: bigint | number) =>
+  BigInt(value) === 0n ? '0x' : toHex(value);
+
+const addToBloom = (bloom: Uint8Array, value: Hex) => {
+  const hash = keccak256(value, 'bytes');
+  for (const i of [0, 2, 4]) {
+    const bit = (((hash[i] ?? 0) << 8) | (hash[i + 1] ?? 0)) & 2047;
+    const index = 255 - (bit >> 3);
+    bloom[index] = (bloom[index] ?? 0) | (1 << (bit & 7));
+  }
+};
+
+const createBloom = (logs: SyntheticLog[]) => {
+  const bloom = new Uint8Array(256);
+  for (const log of logs) {
+    addToBloom(bloom, log.address);
+    for (const topic of log.topics) addToBloom(bloom, topic);
+  }
+  return bloom;
+};
+
+const buildStorageTrie = async (storage: Record<Hex, Hex>) => {
+  const trie = new Trie();
+  for (const [slot, value] of Object.entries(storage)) {
+    if (hexToBigInt(value as Hex) === 0n) continue;
+    await trie.put(
+      keccak256(pad(slot as Hex), 'bytes'),
+      toRlp(trim(value as Hex), 'bytes')
+    );
+  }
+  return trie;
+};
+
+const buildState = async (accounts: SyntheticAccount[]) => {
+  const stateTrie = new Trie();
+  const storageTries = new Map<Address, Trie>();
+
+  for (const account of accounts) {
+    const storageTrie = await buildStorageTrie(account.storage ?? {});
+    storageTries.set(account.address.toLowerCase() as Address, storageTrie);
+
+    await stateTrie.put(
+      keccak256(account.address, 'bytes'),
+      toRlp(
+        [
+          toRlpQuantity(account.nonce ?? 0n),
+          toRlpQuantity(account.balance ?? 0n),
+          bytesToHex(storageTrie.root()),
+          keccak256(account.code ?? '0x'),
+        ],
+        'bytes'
+      )
+    );
+  }
+
+  return { stateTrie, storageTries };
+};
+
+const toRpcValue = (value: unknown): unknown => {
+  if (typeof value === 'bigint' || typeof value === 'number') {
+    return toQuantity(value);
+  }
+  if (Array.isArray(value)) return value.map(toRpcValue);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, toRpcValue(v)])
+    );
+  }
+  return value;
+};
+
+const TRANSACTION_TYPES: Record<string, Hex> = {
+  legacy: '0x0',
+  eip2930: '0x1',
+  eip1559: '0x2',
+  eip4844: '0x3',
+  eip7702: '0x4',
+};
+
+// Builds a single block over the given state and transactions, every root in its header matches the tries.
+export const createSyntheticChain = async (
+  opts: CreateSyntheticChainOpts = {}
+) => {
+  const {
+    chainId = 1,
+    blockNumber = 20_000_000n,
+    timestamp = 1_720_000_000n,
+    parentHash = zeroHash,
+    baseFeePerGas = 1_000_000_000n,
+    privateKey = DEFAULT_PRIVATE_KEY,
+    accounts = [],
+    transactions = [],
+  } = opts;
+
+  const withdrawals = (opts.withdrawals ?? []).map(
+    (withdrawal, i) =>
+      toRpcValue({ index: BigInt(i), ...withdrawal }) as Withdrawal
+  );
+  const withdrawalsTrie = new Trie();
+  for (const [index, withdrawal] of withdrawals.entries()) {
+    await withdrawalsTrie.put(
+      encodeIndex(index),
+      serializeWithdrawal(withdrawal)
+    );
+  }
+
+  const signer = privateKeyToAccount(privateKey);
+  const { stateTrie, storageTries } = await buildState(accounts);
+
+  const transactionsTrie = new Trie();
+  const receiptsTrie = new Trie();
+  const rpcTransactions: RpcTransaction[] = [];
+  const rpcReceipts: TransactionReceipt<Hex, Hex, Hex, Hex>[] = [];
+  const blockBloom = new Uint8Array(256);
+  let cumulativeGasUsed = 0n;
+  let logIndex = 0;
+
+  for (const [index, tx] of transactions.entries()) {
+    const { logs = [], gasUsed = tx.gas ?? 21_000n, status, ...request } = tx;
+    const serialized = await signer.signTransaction({
+      gas: 21_000n,
+      ...request,
+      chainId,
+    } as TransactionSerializable);
+    const parsed = parseTransaction(serialized);
+    const hash = keccak256(serialized);
+    const type = TRANSACTION_TYPES[parsed.type ?? 'legacy'] ?? '0x0';
+
+    await transactionsTrie.put(encodeIndex(index), hexToBytes(serialized));
+
+    const rpcTransaction = toRpcValue({
+      accessList: [],
+      ...parsed,
+      nonce: parsed.nonce ?? 0,
+      value: parsed.value ?? 0n,
+      to: parsed.to ?? null,
+      input: parsed.data ?? '0x',
+      // Typed transactions report the y parity as `v` over JSON-RPC.
+      v: parsed.type === 'legacy' ? parsed.v : BigInt(parsed.yParity ?? 0),
+      data: undefined,
+      hash,
+      from: signer.address,
+      // Replaced once the header is hashed.
+      blockHash: zeroHash,
+      blockNumber,
+      transactionIndex: index,
+      type,
+      gasPrice: parsed.gasPrice ?? parsed.maxFeePerGas,
+    }) as RpcTransaction;
+    rpcTransactions.push(rpcTransaction);
+
+    cumulativeGasUsed += gasUsed;
+    const bloom = createBloom(logs);
+    for (const [i, byte] of bloom.entries()) {
+      blockBloom[i] = (blockBloom[i] ?? 0) | byte;
+    }
+
+    const receipt = {
+      transactionHash: hash,
+      transactionIndex: toQuantity(index),
+      blockHash: zeroHash,
+      blockNumber: toQuantity(blockNumber),
+      from: signer.address,
+      to: parsed.to ?? null,
+      contractAddress: null,
+      cumulativeGasUsed: toQuantity(cumulativeGasUsed),
+      gasUsed: toQuantity(gasUsed),
+      effectiveGasPrice: rpcTransaction.gasPrice ?? '0x0',
+      logsBloom: bytesToHex(bloom),
+      status: status === 'reverted' ? '0x0' : '0x1',
+      type,
+      logs: logs.map((log) => ({
+        ...log,
+        topics: log.topics as [Hex, ...Hex[]],
+        blockHash: zeroHash,
+        blockNumber: toQuantity(blockNumber),
+        transactionHash: hash,
+        transactionIndex: toQuantity(index),
+        logIndex: toQuantity(logIndex++),
+        removed: false,
+      })),
+    } as TransactionReceipt<Hex, Hex, Hex, Hex>;
+    rpcReceipts.push(receipt);
+
+    await receiptsTrie.put(encodeIndex(index), serializeReceipt(receipt));
+  }
+
+  const header = {
+    parentHash,
+    sha3Uncles: EMPTY_UNCLES_HASH,
+    miner: zeroAddress,
+    stateRoot: bytesToHex(stateTrie.root()),
+    transactionsRoot: bytesToHex(transactionsTrie.root()),
+    receiptsRoot: bytesToHex(receiptsTrie.root()),
+    logsBloom: bytesToHex(blockBloom),
+    difficulty: '0x0',
+    number: toQuantity(blockNumber),
+    gasLimit: toQuantity(30_000_000n),
+    gasUsed: toQuantity(cumulativeGasUsed),
+    timestamp: toQuantity(timestamp),
+    extraData: '0x',
+    mixHash: zeroHash,
+    nonce: '0x0000000000000000',
+    baseFeePerGas: toQuantity(baseFeePerGas),
+    withdrawalsRoot: bytesToHex(withdrawalsTrie.root()),
+    blobGasUsed: '0x0',
+    excessBlobGas: '0x0',
+    parentBeaconBlockRoot: zeroHash,
+    requestsHash: EMPTY_REQUESTS_HASH,
+  } as const;
+
+  const fork = getHeaderFork(
+    { number: blockNumber, timestamp },
+    getHeaderForkSchedule(chainId)
+  );
+  const headerRlp = serializeBlockHeader(
+    formatBlock({ ...header, hash: null } as unknown as RpcBlock),
+    fork
+  );
+  const blockHash = keccak256(headerRlp);
+
+  // Fields introduced by later forks are dropped so the block reads like a real one.
+  const forkFields: Record<string, (keyof typeof header)[]> = {
+    frontier: [
+      'baseFeePerGas',
+      'withdrawalsRoot',
+      'blobGasUsed',
+      'excessBlobGas',
+      'parentBeaconBlockRoot',
+      'requestsHash',
+    ],
+    london: [
+      'withdrawalsRoot',
+      'blobGasUsed',
+      'excessBlobGas',
+      'parentBeaconBlockRoot',
+      'requestsHash',
+    ],
+    shanghai: [
+      'blobGasUsed',
+      'excessBlobGas',
+      'parentBeaconBlockRoot',
+      'requestsHash',
+    ],
+    cancun: ['requestsHash'],
+    prague: [],
+  };
+  const blockHeader: Record<string, unknown> = { ...header };
+  for (const field of forkFields[fork] ?? []) delete blockHeader[field];
+
+  const withBlockHash = <T extends object>(item: T) => ({ ...item, blockHash });
+  const blockTransactions = rpcTransactions.map(withBlockHash);
+  const blockReceipts = rpcReceipts.map((receipt) => ({
+    ...withBlockHash(receipt),
+    logs: receipt.logs.map(withBlockHash),
+  }));
+
+  const getBlock = (includeTransactions: boolean) =>
+    ({
+      ...blockHeader,
+      hash: blockHash,
+      size: toQuantity(hexToBytes(headerRlp).length),
+      totalDifficulty: '0x0',
+      uncles: [],
+      withdrawals:
+        fork === 'frontier' || fork === 'london' ? undefined : withdrawals,
+      transactions: includeTransactions
+        ? blockTransactions
+        : blockTransactions.map((tx) => tx.hash),
+    }) as unknown as RpcBlock;
+
+  const getProof = async (
+    address: Address,
+    slots: Hex[]
+  ): Promise<RpcProof> => {
+    const account = accounts.find(
+      (a) => a.address.toLowerCase() === address.toLowerCase()
+    );
+    const storageTrie =
+      storageTries.get(address.toLowerCase() as Address) ?? new Trie();
+    const accountProof = await stateTrie.createProof(
+      keccak256(address, 'bytes')
+    );
+
+    return {
+      address,
+      balance: toQuantity(account?.balance ?? 0n),
+      nonce: toQuantity(account?.nonce ?? 0n),
+      codeHash: keccak256(account?.code ?? '0x'),
+      storageHash: bytesToHex(storageTrie.root()),
+      accountProof: accountProof.map((node) => bytesToHex(node)),
+      storageProof: await Promise.all(
+        slots.map(async (slot) => {
+          const proof = await storageTrie.createProof(
+            keccak256(pad(slot), 'bytes')
+          );
+          return {
+            key: slot,
+            value: toQuantity(hexToBigInt(account?.storage?.[slot] ?? '0x0')),
+            proof: proof.map((node) => bytesToHex(node)),
+          };
+        })
+      ),
+    } as RpcProof;
+  };
+
+  const isBlock = (tag: string) =>
+    ['latest', 'safe', 'finalized', 'pending'].includes(tag) ||
+    tag === blockHash ||
+    (tag.startsWith('0x') &&
+      tag.length < 66 &&
+      hexToBigInt(tag as Hex) === blockNumber);
+
+  const request = async ({
+    method,
+    params = [],
+  }: { method: string; params?: unknown[] }) => {
+    switch (method) {
+      case 'eth_chainId':
+        return toQuantity(chainId);
+      case 'eth_blockNumber':
+        return toQuantity(blockNumber);
+      case 'eth_getBlockByNumber':
+      case 'eth_getBlockByHash':
+        return isBlock(params[0] as string)
+          ? getBlock(Boolean(params[1]))
+          : null;
+      case 'eth_getBlockReceipts':
+        return isBlock(params[0] as string) ? blockReceipts : null;
+      case 'eth_getTransactionByHash':
+        return blockTransactions.find((tx) => tx.hash === params[0]) ?? null;
+      case 'eth_getTransactionReceipt':
+        return (
+          blockReceipts.find((r) => r.transactionHash === params[0]) ?? null
+        );
+      case 'eth_getProof':
+        return getProof(params[0] as Address, params[1] as Hex[]);
+      case 'eth_getCode': {
+        const account = accounts.find(
+          (a) => a.address.toLowerCase() === (params[0] as string).toLowerCase()
+        );
+        return account?.code ?? '0x';
+      }
+      default:
+        throw new Error(
+          `Method ${method} is not supported by the synthetic chain`
+        );
+    }
+  };
+
+  const publicClient = createPublicClient({
+    transport: custom({ request }, { retryCount: 0 }),
+  }) as PublicClient;
+
+  return {
+    publicClient,
+    block: getBlock(true),
+    headerRlp,
+    receipts: blockReceipts,
+    stateTrie,
+    storageTries,
+    transactionsTrie,
+    receiptsTrie,
+    withdrawalsTrie,
+    transactionHashes: blockTransactions.map((tx) => tx.hash),
+  };
+};
+
+export type SyntheticChain = Awaited<ReturnType<typeof createSyntheticChain>>;
@@ -0,0 +1,269 @@
+import { writeFileSync } from 'node:fs';
+import type { InputMap } from '@noir-lang/noir_js';
+import { toInputMap } from './helpers';
+
+type InputValue = InputMap[string];
+
+const isTable = (value: InputValue): value is InputMap =>
+  typeof value === 'object' && !Array.isArray(value);
+
+const isTableArray = (value: InputValue): value is InputMap[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isTable);
+
+const formatValue = (value: InputValue): string => {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(',')}]`;
+  return `{ ${Object.entries(value)
+    .map(([key, item]) => `${key} = ${formatValue(item)}`)
+    .join(', ')} }`;
+};
+
+// Plain values go first, as TOML assigns every key after a header to that table.
+const formatTable = (table: InputMap, path: string[]): string[] => {
+  const lines: string[] = [];
+  const tables: [string, InputMap | InputMap[]][] = [];
+
+  for (const [key, value] of Object.entries(table)) {
+    if (isTable(value) || isTableArray(value)) tables.push([key, value]);
+    else lines.push(`${key} = ${formatValue(value)}`);
+  }
+
+  for (const [key, value] of tables) {
+    const tablePath = [...path, key];
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        lines.push(
+          `[[${tablePath.join('.')}]]`,
+          ...formatTable(item, tablePath)
+        );
+      }
+    } else {
+      lines.push(`[${tablePath.join('.')}]`, ...formatTable(value, tablePath));
+    }
+  }
+
+  return lines;
+};
+
+export const toProverToml = (inputs: object) =>
+  `${formatTable(toInputMap(inputs), []).join('\n')}\n`;
+
+export const writeProverToml = (path: string, inputs: object) =>
+  writeFileSync(path, toProverToml(inputs));
+
+const createReader = (text: string, line: number) => {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid Prover.toml at line ${line}: ${message}`);
+  };
+
+  const skipSpaces = () => {
+    while (text[pos] === ' ' || text[pos] === '\t') pos++;
+  };
+
+  const expect = (char: string) => {
+    skipSpaces();
+    if (text[pos] !== char) fail(`expected "${char}"`);
+    pos++;
+  };
+
+  const readKey = () => {
+    skipSpaces();
+    if (text[pos] === '"') return readString();
+    const match = /^[A-Za-z0-9_-]+/.exec(text.slice(pos));
+    if (!match) return fail('expected a key');
+    pos += match[0].length;
+    return match[0];
+  };
+
+  const readDottedKey = () => {
+    const keys = [readKey()];
+    skipSpaces();
+    while (text[pos] === '.') {
+      pos++;
+      keys.push(readKey());
+      skipSpaces();
+    }
+    return keys;
+  };
+
+  const readString = (): string => {
+    const match = /^"(?:[^"\\]|\\.)*"/.exec(text.slice(pos));
+    if (!match) return fail('unterminated string');
+    pos += match[0].length;
+    return JSON.parse(match[0]);
+  };
+
+  const readValue = (): InputValue => {
+    skipSpaces();
+    const char = text[pos];
+
+    if (char === '"') return readString();
+
+    if (char === '[') {
+      pos++;
+      const items: InputValue[] = [];
+      skipSpaces();
+      while (text[pos] !== ']') {
+        items.push(readValue());
+        skipSpaces();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] !== ']') fail('expected "," or "]"');
+        skipSpaces();
+      }
+      pos++;
+      return items;
+    }
+
+    if (char === '{') {
+      pos++;
+      const table: InputMap = {};
+      skipSpaces();
+      while (text[pos] !== '}') {
+        const key = readKey();
+        expect('=');
+        table[key] = readValue();
+        skipSpaces();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] !== '}') fail('expected "," or "}"');
+        skipSpaces();
+      }
+      pos++;
+      return table;
+    }
+
+    const match = /^[^\s,\]}]+/.exec(text.slice(pos));
+    if (!match) return fail('expected a value');
+    pos += match[0].length;
+    if (match[0] === 'true' || match[0] === 'false') return match[0] === 'true';
+
+    const literal = match[0].replaceAll('_', '');
+    const number = Number(literal);
+    if (Number.isNaN(number)) fail(`unsupported value ${match[0]}`);
+    // Integers past the safe range lose precision as numbers, keep them as written.
+    if (
+      /^[+-]?(\d+|0x[\da-f]+)$/i.test(literal) &&
+      Math.abs(number) >= Number.MAX_SAFE_INTEGER
+    ) {
+      return literal.replace(/^\+/, '');
+    }
+    return number;
+  };
+
+  const done = () => {
+    skipSpaces();
+    if (pos < text.length) fail('unexpected trailing data');
+  };
+
+  return { readDottedKey, readValue, expect, done };
+};
+
+// Arrays may span several lines in hand written files, join them into one statement.
+const joinLines = (toml: string) => {
+  const statements: { text: string; line: number }[] = [];
+  let pending: { text: string; line: number } | undefined;
+  let depth = 0;
+  let inString = false;
+
+  for (const [index, line] of toml.split(/\r?\n/).entries()) {
+    let text = '';
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (inString) {
+        if (char === '\\') text += line[i++];
+        else if (char === '"') inString = false;
+      } else if (char === '"') inString = true;
+      else if (char === '#') break;
+      else if (char === '[' || char === '{') depth++;
+      else if (char === ']' || char === '}') depth--;
+      text += char;
+    }
+
+    if (pending) pending.text += ` ${text}`;
+    else if (text.trim() !== '') pending = { text, line: index + 1 };
+
+    if (pending && depth === 0) {
+      statements.push(pending);
+      pending = undefined;
+    }
+  }
+
+  if (pending) {
+    throw new Error(
+      `Invalid Prover.toml at line ${pending.line}: unterminated value`
+    );
+  }
+
+  return statements;
+};
+
+const getTable = (root: InputMap, keys: string[], line: number) => {
+  let table = root;
+  for (const key of keys) {
+    let next = table[key];
+    if (next === undefined) {
+      next = {};
+      table[key] = next;
+    }
+    // A path through an array of tables continues in its last element.
+    if (Array.isArray(next)) next = next.at(-1) as InputValue;
+    if (!next || !isTable(next)) {
+      throw new Error(
+        `Invalid Prover.toml at line ${line}: ${key} is not a table`
+      );
+    }
+    table = next;
+  }
+  return table;
+};
+
+export const parseProverToml = <T extends InputMap = InputMap>(
+  toml: string
+): T => {
+  const root: InputMap = {};
+  let table = root;
+
+  for (const { text, line } of joinLines(toml)) {
+    const trimmed = text.trim();
+    const reader = createReader(trimmed, line);
+
+    if (trimmed.startsWith('[[')) {
+      reader.expect('[');
+      reader.expect('[');
+      const keys = reader.readDottedKey();
+      reader.expect(']');
+      reader.expect(']');
+      reader.done();
+
+      const parent = getTable(root, keys.slice(0, -1), line);
+      const key = keys.at(-1) as string;
+      const tables = parent[key] ?? [];
+      if (!Array.isArray(tables)) {
+        throw new Error(
+          `Invalid Prover.toml at line ${line}: ${key} is not an array of tables`
+        );
+      }
+      table = {};
+      tables.push(table);
+      parent[key] = tables;
+    } else if (trimmed.startsWith('[')) {
+      reader.expect('[');
+      const keys = reader.readDottedKey();
+      reader.expect(']');
+      reader.done();
+      table = getTable(root, keys, line);
+    } else {
+      const keys = reader.readDottedKey();
+      reader.expect('=');
+      const value = reader.readValue();
+      reader.done();
+      getTable(table, keys.slice(0, -1), line)[keys.at(-1) as string] = value;
+    }
+  }
+
+  return root as T;
+};
@@ -6,124 +6,306 @@ import {
   U8,
   U64,
 } from '@zkpersona/noir-helpers';
-import { type GetTransactionParameters, type PublicClient, toHex } from 'viem';
 import {
+  type Block,
+  type GetBlockParameters,
+  type GetTransactionParameters,
+  type Hex,
+  type PublicClient,
+  type Transaction,
+  isAddressEqual,
+  keccak256,
+  recoverPublicKey,
+  slice,
+  toHex,
+  zeroAddress,
+  zeroHash,
+} from 'viem';
+import { type CacheOpts, type ProofCache, createTrieProver } from './cache';
+import {
+  type BlockPayload,
+  type ProofVerifyOpts,
   encodeIndex,
-  leftPad,
+  encodeProofInput,
+  getLegacyChainId,
+  getLegacyYParity,
+  getTransactionSigningPayload,
   parseAddress,
   parseByteArray,
   parseBytes32,
-  rightPad,
+  parseRpcBlock,
   serializeTransaction,
   toU128,
 } from './helpers';
 
-export type GetTransactionProofOpts = GetTransactionParameters & {
+type TransactionProofSizeOpts = {
   maxLeafLength?: number;
   maxDataLength?: number;
   maxEncodedTransactionLength?: number;
   maxDepthNoLeaf?: number;
+  maxAccessListLength?: number;
+  maxStorageKeysLength?: number;
+  maxBlobHashesLength?: number;
+  maxAuthorizationListLength?: number;
 };
 
-export const getTransactionProof = async <T extends PublicClient>(
-  publicClient: T,
-  opts: GetTransactionProofOpts
+type TransactionFieldsOpts = TransactionProofSizeOpts & {
+  // Adds the type-specific fields consumed by `verify_transaction_fields_proof`.
+  fields?: boolean;
+  // Adds the recovered sender consumed by `verify_transaction_sender_proof`.
+  sender?: boolean;
+};
+
+export type GetTransactionProofOpts = GetTransactionParameters &
+  TransactionFieldsOpts &
+  ProofVerifyOpts &
+  CacheOpts;
+
+export type BuildTransactionProofOpts = TransactionFieldsOpts &
+  ProofVerifyOpts &
+  CacheOpts & {
+    block: BlockPayload;
+    transactionIndex: number;
+  };
+
+export type GetTransactionProofsOpts = GetBlockParameters &
+  TransactionFieldsOpts &
+  ProofVerifyOpts &
+  CacheOpts & {
+    transactionIndices?: number[];
+    hashes?: Hex[];
+  };
+
+export type BuildTransactionProofsOpts = TransactionFieldsOpts &
+  ProofVerifyOpts &
+  CacheOpts & {
+    block: BlockPayload;
+    transactionIndices: number[];
+  };
+
+const emptyAccessListEntry = (maxStorageKeysLength: number) => ({
+  address: parseAddress(zeroAddress),
+  storage_keys: new BoundedVec(
+    maxStorageKeysLength,
+    parseBytes32(zeroHash),
+    []
+  ),
+});
+
+const emptyAuthorizationEntry = () => ({
+  chain_id: new U64(0),
+  address: parseAddress(zeroAddress),
+  nonce: new U64(0),
+  v: new U8(0),
+  r: parseBytes32(zeroHash),
+  s: parseBytes32(zeroHash),
+});
+
+// Fields a transaction type does not carry are zero or empty, as `assert_tx_fields_rlp_equals` expects.
+const encodeTransactionFields = (
+  tx: Transaction<bigint, number>,
+  opts: Required<
+    Pick<
+      TransactionProofSizeOpts,
+      | 'maxAccessListLength'
+      | 'maxStorageKeysLength'
+      | 'maxBlobHashesLength'
+      | 'maxAuthorizationListLength'
+    >
+  >
 ) => {
   const {
-    maxLeafLength = 256,
-    maxDataLength = 256,
-    maxEncodedTransactionLength = 525,
-    maxDepthNoLeaf = 4,
-    ...getTransactionOpts
+    maxAccessListLength,
+    maxStorageKeysLength,
+    maxBlobHashesLength,
+    maxAuthorizationListLength,
   } = opts;
 
-  const tx = await publicClient.getTransaction(getTransactionOpts);
-  if (!tx.blockNumber) throw new Error('Transaction not found');
+  const accessList = tx.type === 'legacy' ? [] : (tx.accessList ?? []);
+  const blobVersionedHashes =
+    tx.type === 'eip4844' ? tx.blobVersionedHashes : [];
+  const authorizationList = tx.type === 'eip7702' ? tx.authorizationList : [];
 
-  const txKey = encodeIndex(tx.transactionIndex ?? 0);
-  const txData = parseByteArray(tx.input);
-  const encodedTx = serializeTransaction(tx);
+  if (maxAccessListLength < accessList.length) {
+    throw new Error('Access list length exceeds max access list length');
+  }
 
-  if (maxEncodedTransactionLength < encodedTx.length) {
+  for (const { storageKeys } of accessList) {
+    if (maxStorageKeysLength < storageKeys.length) {
+      throw new Error('Storage keys length exceeds max storage keys length');
+    }
+  }
+
+  if (maxBlobHashesLength < blobVersionedHashes.length) {
     throw new Error(
-      'Encoded Transaction length exceeds max encoded transaction length'
+      'Blob versioned hashes length exceeds max blob hashes length'
     );
   }
 
-  if (maxDataLength < txData.length) {
-    throw new Error('Transaction data length exceeds max data length');
+  if (maxAuthorizationListLength < authorizationList.length) {
+    throw new Error(
+      'Authorization list length exceeds max authorization list length'
+    );
   }
 
-  const block = await publicClient.getBlock({
-    blockNumber: tx.blockNumber,
-    includeTransactions: true,
-  });
+  return {
+    chain_id: new U64(
+      tx.type === 'legacy' ? getLegacyChainId(tx.v) : tx.chainId
+    ),
+    gas_price: new U64(
+      tx.type === 'legacy' || tx.type === 'eip2930' ? tx.gasPrice : 0
+    ),
+    max_priority_fee_per_gas: new U64(tx.maxPriorityFeePerGas ?? 0),
+    max_fee_per_gas: new U64(tx.maxFeePerGas ?? 0),
+    max_fee_per_blob_gas: new U64(tx.maxFeePerBlobGas ?? 0),
+    access_list: new BoundedVec(
+      maxAccessListLength,
+      emptyAccessListEntry(maxStorageKeysLength),
+      accessList.map(({ address, storageKeys }) => ({
+        address: parseAddress(address),
+        storage_keys: new BoundedVec(
+          maxStorageKeysLength,
+          parseBytes32(zeroHash),
+          storageKeys.map(parseBytes32)
+        ),
+      }))
+    ),
+    blob_versioned_hashes: new BoundedVec(
+      maxBlobHashesLength,
+      parseBytes32(zeroHash),
+      blobVersionedHashes.map(parseBytes32)
+    ),
+    authorization_list: new BoundedVec(
+      maxAuthorizationListLength,
+      emptyAuthorizationEntry(),
+      authorizationList.map((authorization) => ({
+        chain_id: new U64(authorization.chainId),
+        address: parseAddress(authorization.address),
+        nonce: new U64(authorization.nonce),
+        v: new U8(authorization.yParity ?? 0),
+        r: parseBytes32(authorization.r),
+        s: parseBytes32(authorization.s),
+      }))
+    ),
+  };
+};
 
-  const transactionsTrie = new Trie();
+const encodeTransactionSender = async (tx: Transaction<bigint, number>) => {
+  const signingHash = keccak256(getTransactionSigningPayload(tx));
+  const yParity = tx.type === 'legacy' ? getLegacyYParity(tx.v) : tx.yParity;
 
-  const transactions = structuredClone(block.transactions);
+  // Uncompressed public key: 0x04 || x || y
+  const publicKey = await recoverPublicKey({
+    hash: signingHash,
+    signature: { r: tx.r, s: tx.s, yParity },
+  });
 
-  for await (const [index, item] of transactions.entries()) {
-    const key = encodeIndex(index);
-    const value = serializeTransaction(item);
-    await transactionsTrie.put(key, value);
+  const sender = slice(keccak256(slice(publicKey, 1)), 12);
+  if (!isAddressEqual(sender, tx.from)) {
+    throw new Error('Recovered sender does not match transaction sender');
   }
 
-  if (block.transactionsRoot !== toHex(transactionsTrie.root())) {
-    throw new Error(
-      'Transactions trie root does not match block transactions root'
-    );
-  }
+  return {
+    signing_hash: parseBytes32(signingHash),
+    public_key_x: parseBytes32(slice(publicKey, 1, 33)),
+    public_key_y: parseBytes32(slice(publicKey, 33)),
+  };
+};
 
-  const transactionProof = await transactionsTrie.createProof(txKey);
-  const leafNode = transactionProof.at(-1) ?? '0x0';
-  const nodes = transactionProof.slice(0, -1);
+type TransactionsTrie = {
+  block: Block<bigint, true>;
+  createProof: (key: Uint8Array, value: Uint8Array) => Promise<Uint8Array[]>;
+};
 
-  if (maxLeafLength < leafNode.length) {
-    throw new Error('Leaf node length exceeds max leaf length');
-  }
+// The transactions trie of a block is built at most once, on the first proof missing from the cache.
+const buildTransactionsTrie = (
+  blockPayload: BlockPayload,
+  cache?: ProofCache
+): TransactionsTrie => {
+  const block = parseRpcBlock<Block<bigint, true>>(blockPayload);
 
-  const nodesData = nodes.map((val) => {
-    const items = rightPad(val, 532).map((x) => new U8(x));
-    return new FixedSizeArray(532, items);
-  });
+  const createProof = createTrieProver(
+    block.transactionsRoot,
+    async () => {
+      const transactionsTrie = new Trie();
 
-  if (nodesData.length > maxDepthNoLeaf) {
-    throw new Error('Transaction Proof length exceeds Max Depth provided');
-  }
+      const transactions = structuredClone(block.transactions);
+
+      for await (const [index, item] of transactions.entries()) {
+        const key = encodeIndex(index);
+        const value = serializeTransaction(item);
+        await transactionsTrie.put(key, value);
+      }
+
+      if (block.transactionsRoot !== toHex(transactionsTrie.root())) {
+        throw new Error(
+          'Transactions trie root does not match block transactions root'
+        );
+      }
+
+      return transactionsTrie;
+    },
+    cache
+  );
+
+  return { block, createProof };
+};
+
+const encodeTransactionProof = async (
+  trie: TransactionsTrie,
+  opts: Omit<BuildTransactionProofOpts, 'block' | 'cache'>
+) => {
+  const {
+    maxLeafLength = 256,
+    maxDataLength = 256,
+    maxEncodedTransactionLength = 525,
+    maxDepthNoLeaf = 4,
+    maxAccessListLength = 2,
+    maxStorageKeysLength = 2,
+    maxBlobHashesLength = 6,
+    maxAuthorizationListLength = 2,
+    fields,
+    sender,
+    transactionIndex,
+    verify,
+  } = opts;
+  const { block, createProof } = trie;
+
+  const tx = block.transactions[transactionIndex];
+  if (!tx || typeof tx !== 'object') throw new Error('Transaction not found');
+
+  const txKey = encodeIndex(transactionIndex);
+  const txData = parseByteArray(tx.input);
+  const encodedTx = serializeTransaction(tx);
 
-  while (nodesData.length !== maxDepthNoLeaf) {
-    nodesData.push(new FixedSizeArray(532, new Array(532).fill(new U8(0))));
+  if (maxEncodedTransactionLength < encodedTx.length) {
+    throw new Error(
+      'Encoded Transaction length exceeds max encoded transaction length'
+    );
   }
 
-  const proof = {
-    nodes: new FixedSizeArray(maxDepthNoLeaf, nodesData),
-    leaf: new FixedSizeArray(
-      maxLeafLength,
-      rightPad(leafNode, maxLeafLength).map((x) => new U8(x))
-    ),
-    depth: new U64(transactionProof.length),
-  };
+  if (maxDataLength < txData.length) {
+    throw new Error('Transaction data length exceeds max data length');
+  }
 
+  const transactionProof = await createProof(txKey, encodedTx);
   const transactionRoot = parseBytes32(block.transactionsRoot);
 
-  const key = new FixedSizeArray(
-    8,
-    leftPad(txKey, 8).map((x) => new U8(x))
-  );
-  const value = new FixedSizeArray(
-    maxEncodedTransactionLength,
-    leftPad(encodedTx, maxEncodedTransactionLength).map((x) => new U8(x))
-  );
-
-  const proofInput = {
-    key,
-    value,
-    proof,
-  };
+  const proofInput = encodeProofInput({
+    name: 'Transaction',
+    key: txKey,
+    value: encodedTx,
+    proof: transactionProof,
+    root: block.transactionsRoot,
+    verify,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength: 8,
+    maxValueLength: maxEncodedTransactionLength,
+  });
 
   return {
-    transaction_index: new U64(tx.transactionIndex ?? 0),
+    transaction_index: new U64(transactionIndex),
     transaction_type: new U8(tx.typeHex ?? '0x0'),
     transaction_proof: proofInput,
     transaction_root: transactionRoot,
@@ -145,5 +327,164 @@ export const getTransactionProof = async <T extends PublicClient>(
       r: new FixedSizeArray(32, parseByteArray(tx.r)),
       s: new FixedSizeArray(32, parseByteArray(tx.s)),
     },
+    ...(fields && {
+      transaction_fields: encodeTransactionFields(tx, {
+        maxAccessListLength,
+        maxStorageKeysLength,
+        maxBlobHashesLength,
+        maxAuthorizationListLength,
+      }),
+    }),
+    ...(sender && {
+      transaction_sender: await encodeTransactionSender(tx),
+    }),
   };
 };
+
+export const buildTransactionProof = async (
+  opts: BuildTransactionProofOpts
+) => {
+  const { block, cache, ...transactionProofOpts } = opts;
+  const trie = buildTransactionsTrie(block, cache);
+  return await encodeTransactionProof(trie, transactionProofOpts);
+};
+
+// Proves several transactions of one block, the transactions trie is built a single time.
+export const buildTransactionProofs = async (
+  opts: BuildTransactionProofsOpts
+) => {
+  const { block, cache, transactionIndices, ...transactionProofOpts } = opts;
+
+  if (transactionIndices.length === 0) {
+    throw new Error('At least one transaction index is required');
+  }
+
+  const trie = buildTransactionsTrie(block, cache);
+
+  const transactionProofs = [];
+  for (const transactionIndex of transactionIndices) {
+    transactionProofs.push(
+      await encodeTransactionProof(trie, {
+        ...transactionProofOpts,
+        transactionIndex,
+      })
+    );
+  }
+  return transactionProofs;
+};
+
+// Lays out transaction proofs of one block as the arrays `verify_transaction_proofs` takes.
+export const combineTransactionProofs = (
+  transactionProofs: Awaited<ReturnType<typeof buildTransactionProof>>[]
+) => {
+  const [first] = transactionProofs;
+  if (!first) throw new Error('At least one transaction proof is required');
+
+  return {
+    transaction_indices: transactionProofs.map((p) => p.transaction_index),
+    transaction_types: transactionProofs.map((p) => p.transaction_type),
+    transactions: transactionProofs.map((p) => p.transaction),
+    transaction_proofs: transactionProofs.map((p) => p.transaction_proof),
+    transaction_root: first.transaction_root,
+  };
+};
+
+export const getTransactionProof = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetTransactionProofOpts
+) => {
+  const {
+    maxLeafLength,
+    maxDataLength,
+    maxEncodedTransactionLength,
+    maxDepthNoLeaf,
+    maxAccessListLength,
+    maxStorageKeysLength,
+    maxBlobHashesLength,
+    maxAuthorizationListLength,
+    fields,
+    sender,
+    verify,
+    cache,
+    ...getTransactionOpts
+  } = opts;
+
+  const tx = await publicClient.getTransaction(getTransactionOpts);
+  if (!tx.blockNumber) throw new Error('Transaction not found');
+
+  const block = await publicClient.getBlock({
+    blockNumber: tx.blockNumber,
+    includeTransactions: true,
+  });
+
+  return await buildTransactionProof({
+    block,
+    transactionIndex: tx.transactionIndex ?? 0,
+    maxLeafLength,
+    maxDataLength,
+    maxEncodedTransactionLength,
+    maxDepthNoLeaf,
+    maxAccessListLength,
+    maxStorageKeysLength,
+    maxBlobHashesLength,
+    maxAuthorizationListLength,
+    fields,
+    sender,
+    verify,
+    cache,
+  });
+};
+
+// Fetches the block once, transactions are selected by index or hash.
+export const getTransactionProofs = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetTransactionProofsOpts
+) => {
+  const {
+    transactionIndices = [],
+    hashes = [],
+    maxLeafLength,
+    maxDataLength,
+    maxEncodedTransactionLength,
+    maxDepthNoLeaf,
+    maxAccessListLength,
+    maxStorageKeysLength,
+    maxBlobHashesLength,
+    maxAuthorizationListLength,
+    fields,
+    sender,
+    verify,
+    cache,
+    ...getBlockOpts
+  } = opts;
+
+  const block = await publicClient.getBlock({
+    ...getBlockOpts,
+    includeTransactions: true,
+  });
+
+  const hashIndices = hashes.map((hash) => {
+    const index = block.transactions.findIndex(
+      (tx) => tx.hash.toLowerCase() === hash.toLowerCase()
+    );
+    if (index === -1) throw new Error(`Transaction not found: ${hash}`);
+    return index;
+  });
+
+  return await buildTransactionProofs({
+    block,
+    transactionIndices: [...transactionIndices, ...hashIndices],
+    maxLeafLength,
+    maxDataLength,
+    maxEncodedTransactionLength,
+    maxDepthNoLeaf,
+    maxAccessListLength,
+    maxStorageKeysLength,
+    maxBlobHashesLength,
+    maxAuthorizationListLength,
+    fields,
+    sender,
+    verify,
+    cache,
+  });
+};
@@ -0,0 +1,85 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { type Transport, createTransport } from 'viem';
+
+export const FIXTURE_METHODS = [
+  'eth_getBlockByNumber',
+  'eth_getProof',
+  'eth_getTransactionByHash',
+  'eth_getTransactionReceipt',
+  'eth_getBlockReceipts',
+  'eth_getCode',
+  'eth_chainId',
+];
+
+// `record` always hits the wrapped transport, `replay` never does,
+// `auto` replays recorded responses and records the missing ones.
+export type FixtureMode = 'record' | 'replay' | 'auto';
+
+export type FixtureTransportOpts = {
+  path: string;
+  mode?: FixtureMode;
+  transport?: Transport;
+  methods?: string[];
+};
+
+type Fixtures = Record<string, Record<string, unknown>>;
+
+const readFixtures = (path: string): Fixtures =>
+  existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : {};
+
+const writeFixtures = (path: string, fixtures: Fixtures) => {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(fixtures, null, 2)}\n`);
+};
+
+export const fixtureTransport = (opts: FixtureTransportOpts): Transport => {
+  const { path, mode = 'replay', methods = FIXTURE_METHODS } = opts;
+
+  if (mode !== 'replay' && !opts.transport) {
+    throw new Error(`A transport to record from is required in ${mode} mode`);
+  }
+
+  return ({ chain }) => {
+    const fixtures = readFixtures(path);
+    const transport = opts.transport?.({ chain, retryCount: 0 });
+
+    const request = async ({
+      method,
+      params,
+    }: { method: string; params?: unknown }) => {
+      if (!methods.includes(method)) {
+        if (!transport) {
+          throw new Error(`Method ${method} is not replayed from fixtures`);
+        }
+        return transport.request({ method, params });
+      }
+
+      const key = JSON.stringify(params ?? []);
+      const recorded = fixtures[method];
+
+      if (mode !== 'record' && recorded && key in recorded) {
+        return recorded[key];
+      }
+
+      if (mode === 'replay' || !transport) {
+        throw new Error(`No recorded response for ${method} with ${key}`);
+      }
+
+      const result = await transport.request({ method, params });
+      // Concurrent requests may have recorded other responses in the meantime.
+      fixtures[method] = { ...fixtures[method], [key]: result };
+      writeFixtures(path, fixtures);
+      return result;
+    };
+
+    return createTransport({
+      key: 'fixture',
+      name: 'Fixture',
+      type: 'fixture',
+      request: request as Parameters<typeof createTransport>[0]['request'],
+      // Replayed responses are deterministic, retrying a missing one cannot help.
+      retryCount: 0,
+    });
+  };
+};
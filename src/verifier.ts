@@ -0,0 +1,1110 @@
+import type { InputMap } from '@noir-lang/noir_js';
+import { keccak256, toBytes } from 'viem';
+import {
+  MAX_HEADER_FIELDS_COUNT,
+  type MerkleProofCheck,
+  type MerkleProofReport,
+  type PaddedProofInput,
+  type RlpItem,
+  assertCheck,
+  byteValue,
+  bytesEqual,
+  createCheckRunner,
+  decodeListOfSmallStrings,
+  decodeRlpHeader,
+  decodeRlpList,
+  getHeaderFieldsCount,
+  getLegacyChainId,
+  getRlpItem,
+  getSelectorPushLength,
+  isInstructionStart,
+  sliceRlpItem,
+  toInputMap,
+  toSelectorBytes,
+  verifyExclusionProof,
+  verifyMerkleProof,
+} from './helpers';
+
+type InputValue = InputMap[string];
+
+export type VerificationReport = MerkleProofReport;
+
+const BYZANTIUM_BLOCK_NUMBER = 4_370_000n;
+
+const MAX_TRANSACTION_FIELDS_COUNT = 14;
+const ACCOUNT_FIELDS_COUNT = 4;
+const RECEIPT_FIELDS_COUNT = 4;
+const LOG_FIELDS_COUNT = 3;
+const WITHDRAWAL_FIELDS_COUNT = 4;
+
+// [field count, nonce, gas limit, to, value, data, signature] per transaction type.
+const TRANSACTION_TYPE_FIELD_LAYOUT = [
+  [9, 0, 2, 3, 4, 5, 6],
+  [11, 1, 3, 4, 5, 6, 8],
+  [12, 1, 4, 5, 6, 7, 9],
+  [14, 1, 4, 5, 6, 7, 11],
+  [13, 1, 4, 5, 6, 7, 10],
+];
+
+const readField = (map: InputMap, key: string) => {
+  const value = map[key];
+  assertCheck(value !== undefined, `Missing input ${key}`);
+  return value as InputValue;
+};
+
+const readStruct = (map: InputMap, key: string) => {
+  const value = readField(map, key);
+  assertCheck(
+    typeof value === 'object' && !Array.isArray(value),
+    `Input ${key} is not a struct`
+  );
+  return value as InputMap;
+};
+
+const toBigInt = (value: InputValue, key: string) => {
+  assertCheck(typeof value !== 'object', `Input ${key} is not a number`);
+  try {
+    return BigInt(value as string | number | boolean);
+  } catch {
+    assertCheck(false, `Input ${key} is not a number`);
+    return 0n;
+  }
+};
+
+const readBigInt = (map: InputMap, key: string) =>
+  toBigInt(readField(map, key), key);
+
+const toByteArray = (value: InputValue, key: string) => {
+  assertCheck(Array.isArray(value), `Input ${key} is not an array`);
+  return (value as InputValue[]).map((x) => Number(toBigInt(x, key)));
+};
+
+const readBytes = (map: InputMap, key: string) =>
+  toByteArray(readField(map, key), key);
+
+const readBoundedVec = (map: InputMap, key: string) => {
+  const vec = readStruct(map, key);
+  const storage = readField(vec, 'storage');
+  assertCheck(Array.isArray(storage), `Input ${key} is not a bounded vec`);
+  return (storage as InputValue[]).slice(0, Number(readBigInt(vec, 'len')));
+};
+
+const readBoundedVecCapacity = (map: InputMap, key: string) =>
+  (readField(readStruct(map, key), 'storage') as InputValue[]).length;
+
+const readOption = (map: InputMap, key: string) => {
+  const option = readStruct(map, key);
+  return readBigInt(option, '_is_some') === 1n
+    ? readField(option, '_value')
+    : undefined;
+};
+
+const readU128 = (map: InputMap, key: string) => {
+  const value = readStruct(map, key);
+  return readBigInt(value, 'lo') + (readBigInt(value, 'hi') << 64n);
+};
+
+const toProofInput = (value: InputValue, key: string): PaddedProofInput => {
+  assertCheck(
+    typeof value === 'object' && !Array.isArray(value),
+    `Input ${key} is not a struct`
+  );
+  const input = value as InputMap;
+  const proof = readStruct(input, 'proof');
+  const nodes = readField(proof, 'nodes');
+  assertCheck(Array.isArray(nodes), `Input ${key} nodes is not an array`);
+
+  return {
+    key: readBytes(input, 'key'),
+    value: readBytes(input, 'value'),
+    nodes: (nodes as InputValue[]).map((node) => toByteArray(node, 'nodes')),
+    leaf: readBytes(proof, 'leaf'),
+    depth: Number(readBigInt(proof, 'depth')),
+  };
+};
+
+const readProofInput = (map: InputMap, key: string) =>
+  toProofInput(readField(map, key), key);
+
+// Mirrors `byte_value`, integers are RLP encoded without leading zeros.
+const uintBytes = (value: bigint) =>
+  value === 0n ? [] : Array.from(toBytes(value));
+
+const assertRlpBytes = (
+  name: string,
+  rlp: number[],
+  item: RlpItem,
+  value: number[]
+) => {
+  assertCheck(!item.isList, `${name}: Invalid RLP type`);
+  assertCheck(item.length === value.length, `${name}: Invalid RLP length`);
+  assertCheck(
+    bytesEqual(sliceRlpItem(rlp, item), value),
+    `${name}: Invalid RLP value`
+  );
+};
+
+const assertRlpUint = (
+  name: string,
+  rlp: number[],
+  item: RlpItem,
+  value: bigint
+) => assertRlpBytes(name, rlp, item, uintBytes(value));
+
+// Mirrors `right_pad(...).storage()`: the value moved to the front, zeros after it.
+const toRightPadded = (data: number[]) => {
+  const value = byteValue(data);
+  return [...value, ...new Array<number>(data.length - value.length).fill(0)];
+};
+
+const splitIntoTxTypeAndRlp = (isLegacy: boolean, encoded: number[]) => {
+  if (isLegacy) {
+    assertCheck(encoded.at(-1) === 0, 'RLP receipt exceeds MAX_RLP_LENGTH');
+    return { type: 0, rlp: encoded.slice(0, -1) };
+  }
+  return { type: encoded[0] ?? 0, rlp: encoded.slice(1) };
+};
+
+const assertTransactionIndexEquals = (key: number[], index: bigint) => {
+  const header = decodeRlpHeader(key);
+  assertCheck(!header.isList, 'Decoded data is not a string');
+  assertCheck(
+    header.offset + header.length === key.length,
+    'Key is not an RLP encoded string'
+  );
+
+  if (header.length === 0) {
+    assertCheck(
+      index === 0n,
+      'Key does not match RLP encoded transaction index'
+    );
+    return;
+  }
+  assertCheck(
+    bytesEqual(key.slice(header.offset), uintBytes(index)),
+    'Key does not match RLP -encoded transaction index'
+  );
+};
+
+const createReport = () => {
+  const { checks, run } = createCheckRunner();
+
+  const runMerkleProof = (
+    prefix: string,
+    input: PaddedProofInput,
+    root: number[],
+    verify = verifyMerkleProof
+  ) => {
+    const report = verify(input, root);
+    checks.push(
+      ...report.checks.map(
+        (c): MerkleProofCheck => ({ ...c, check: `${prefix}.${c.check}` })
+      )
+    );
+    return report.valid;
+  };
+
+  const done = (): VerificationReport => ({
+    valid: checks.every((c) => c.passed),
+    checks,
+  });
+
+  return { run, runMerkleProof, done };
+};
+
+const verifyAccount = (
+  map: InputMap,
+  report: ReturnType<typeof createReport>
+) => {
+  const { run, runMerkleProof } = report;
+  let account = {} as InputMap;
+  let proof = {} as PaddedProofInput;
+  let stateRoot: number[] = [];
+  let storageHash: number[] = [];
+
+  const valid =
+    run('inputs', () => {
+      account = readStruct(map, 'account');
+      proof = readProofInput(map, 'account_proof');
+      stateRoot = readBytes(map, 'state_root');
+      storageHash = readBytes(account, 'storage_hash');
+    }) &&
+    run('address', () => {
+      const addressHash = keccak256(
+        Uint8Array.from(readBytes(account, 'address')),
+        'bytes'
+      );
+      assertCheck(
+        bytesEqual(proof.key.slice(-32), Array.from(addressHash)),
+        'Address mismatch'
+      );
+    }) &&
+    run('account', () => {
+      const rlp = toRightPadded(proof.value);
+      const items = decodeListOfSmallStrings(rlp, ACCOUNT_FIELDS_COUNT);
+      assertCheck(
+        items.length === ACCOUNT_FIELDS_COUNT,
+        'Invalid number of fields in account RLP'
+      );
+
+      const item = (index: number) => getRlpItem(items, index);
+      assertRlpUint('Nonce', rlp, item(0), readBigInt(account, 'nonce'));
+      assertRlpUint('Balance', rlp, item(1), readBigInt(account, 'balance'));
+      assertRlpBytes('Storage Hash', rlp, item(2), storageHash);
+      assertRlpBytes(
+        'Code Hash',
+        rlp,
+        item(3),
+        readBytes(account, 'code_hash')
+      );
+    }) &&
+    runMerkleProof('account_proof', proof, stateRoot);
+
+  return { valid, storageHash };
+};
+
+// Replays `verify_account` over the account proof inputs.
+export const verifyAccountInputs = (inputs: object) => {
+  const report = createReport();
+  verifyAccount(toInputMap(inputs), report);
+  return report.done();
+};
+
+// Replays `verify_account_code_proof`, and the range and selector checks when present.
+export const verifyAccountCodeInputs = (inputs: object) => {
+  const map = toInputMap(inputs);
+  const report = createReport();
+  const { run, done } = report;
+  let code: number[] = [];
+
+  const readCodeBytes = (offset: number, length: number, name: string) => {
+    assertCheck(offset + length <= code.length, `${name}: Out of bounds`);
+    return code.slice(offset, offset + length);
+  };
+
+  run('inputs', () => {
+    code = toByteArray(readBoundedVec(map, 'code'), 'code');
+  }) &&
+    verifyAccount(map, report).valid &&
+    run('code', () => {
+      assertCheck(code.length !== 0, 'Code: Account has no code');
+      const codeHash = keccak256(Uint8Array.from(code), 'bytes');
+      assertCheck(
+        bytesEqual(
+          Array.from(codeHash),
+          readBytes(readStruct(map, 'account'), 'code_hash')
+        ),
+        'Code hash: Does not match the code'
+      );
+    }) &&
+    (map.code_range === undefined ||
+      run('code_range', () => {
+        const range = readStruct(map, 'code_range');
+        const bytes = toByteArray(readBoundedVec(range, 'bytes'), 'bytes');
+        const offset = Number(readBigInt(range, 'offset'));
+        assertCheck(
+          bytesEqual(readCodeBytes(offset, bytes.length, 'Code range'), bytes),
+          'Code range: Does not match the code'
+        );
+      })) &&
+    (map.code_selector === undefined ||
+      run('code_selector', () => {
+        const selector = readStruct(map, 'code_selector');
+        const offset = Number(readBigInt(selector, 'offset'));
+        const [opcode = 0] = readCodeBytes(offset, 1, 'Selector');
+        assertCheck(
+          isInstructionStart(code, offset),
+          'Selector: Not at an instruction boundary'
+        );
+        const length = getSelectorPushLength(opcode);
+        assertCheck(length !== 0, 'Selector: Not a PUSH1 to PUSH4 instruction');
+        const pushed = readCodeBytes(offset + 1, length, 'Selector');
+        assertCheck(
+          bytesEqual(toSelectorBytes(pushed), readBytes(selector, 'selector')),
+          'Selector: Does not match the code'
+        );
+      }));
+
+  return done();
+};
+
+// Replays `verify_storage_proof` over the storage proof inputs.
+export const verifyStorageInputs = (inputs: object) => {
+  const map = toInputMap(inputs);
+  const { run, runMerkleProof, done } = createReport();
+  let proof = {} as PaddedProofInput;
+  let storageRoot: number[] = [];
+
+  run('inputs', () => {
+    proof = readProofInput(map, 'storage_proof');
+    storageRoot = readBytes(map, 'storage_root');
+  }) && runMerkleProof('storage_proof', proof, storageRoot);
+
+  return done();
+};
+
+// Replays `verify_account_exclusion` over the account exclusion proof inputs.
+export const verifyAccountExclusionInputs = (inputs: object) => {
+  const map = toInputMap(inputs);
+  const { run, runMerkleProof, done } = createReport();
+  let proof = {} as PaddedProofInput;
+  let stateRoot: number[] = [];
+
+  run('inputs', () => {
+    proof = readProofInput(map, 'account_proof');
+    stateRoot = readBytes(map, 'state_root');
+  }) &&
+    run('address', () => {
+      const addressHash = keccak256(
+        Uint8Array.from(readBytes(map, 'address')),
+        'bytes'
+      );
+      assertCheck(
+        bytesEqual(proof.key.slice(-32), Array.from(addressHash)),
+        'Address mismatch'
+      );
+    }) &&
+    runMerkleProof('account_proof', proof, stateRoot, verifyExclusionProof);
+
+  return done();
+};
+
+// Replays `verify_storage_exclusion_proof` over the storage exclusion proof inputs.
+export const verifyStorageExclusionInputs = (inputs: object) => {
+  const map = toInputMap(inputs);
+  const { run, runMerkleProof, done } = createReport();
+  let proof = {} as PaddedProofInput;
+  let storageRoot: number[] = [];
+
+  run('inputs', () => {
+    proof = readProofInput(map, 'storage_proof');
+    storageRoot = readBytes(map, 'storage_root');
+  }) &&
+    runMerkleProof('storage_proof', proof, storageRoot, verifyExclusionProof);
+
+  return done();
+};
+
+// Replays the account proof, then every storage proof against its storage hash.
+export const verifyStorageProofsInputs = (inputs: object) => {
+  const map = toInputMap(inputs);
+  const report = createReport();
+  const { run, runMerkleProof } = report;
+
+  const account = verifyAccount(map, report);
+  if (!account.valid) return report.done();
+
+  let proofs: PaddedProofInput[] = [];
+  const read = run('storage_proofs.inputs', () => {
+    const storageProofs = readField(map, 'storage_proofs');
+    assertCheck(
+      Array.isArray(storageProofs),
+      'Input storage_proofs is not an array'
+    );
+    proofs = (storageProofs as InputValue[]).map((proof) =>
+      toProofInput(proof, 'storage_proofs')
+    );
+  });
+
+  if (read) {
+    for (const [i, proof] of proofs.entries()) {
+      if (!runMerkleProof(`storage_proofs.${i}`, proof, account.storageHash)) {
+        break;
+      }
+    }
+  }
+
+  return report.done();
+};
+
+// Replays `verify_header` over the block header inputs.
+export const verifyHeaderInputs = (inputs: object) => {
+  const map = toInputMap(inputs);
+  const { run, done } = createReport();
+  let chainId = 0n;
+  let header = {} as InputMap;
+  let rlp: number[] = [];
+  let items: RlpItem[] = [];
+
+  run('inputs', () => {
+    chainId = readBigInt(map, 'chain_id');
+    header = readStruct(map, 'block_header_partial');
+    rlp = readBoundedVec(map, 'block_header_rlp').map((x) =>
+      Number(toBigInt(x, 'block_header_rlp'))
+    );
+  }) &&
+    run('header', () => {
+      items = decodeRlpList(rlp, MAX_HEADER_FIELDS_COUNT);
+      const number = readBigInt(header, 'number');
+      const expected = getHeaderFieldsCount(chainId, number);
+      assertCheck(
+        BigInt(items.length) === expected,
+        `Expected header fields count: ${expected}, got: ${items.length}`
+      );
+
+      assertRlpUint('Block number', rlp, getRlpItem(items, 8), number);
+      assertRlpBytes(
+        'State Root',
+        rlp,
+        getRlpItem(items, 3),
+        readBytes(header, 'state_root')
+      );
+      assertRlpBytes(
+        'Transactions Root',
+        rlp,
+        getRlpItem(items, 4),
+        readBytes(header, 'transactions_root')
+      );
+      assertRlpBytes(
+        'Receipts Root',
+        rlp,
+        getRlpItem(items, 5),
+        readBytes(header, 'receipts_root')
+      );
+
+      const withdrawalsRoot = readOption(header, 'withdrawals_root');
+      if (withdrawalsRoot !== undefined) {
+        assertRlpBytes(
+          'Withdrawals Root',
+          rlp,
+          getRlpItem(items, 16),
+          toByteArray(withdrawalsRoot, 'withdrawals_root')
+        );
+      }
+    }) &&
+    run('header_hash', () => {
+      const hash = keccak256(Uint8Array.from(rlp), 'bytes');
+      assertCheck(
+        bytesEqual(Array.from(hash), readBytes(header, 'hash')),
+        'Block Hash does not Match'
+      );
+    });
+
+  return done();
+};
+
+const ACCESS_LIST_ENTRY_FIELDS_COUNT = 2;
+const AUTHORIZATION_ENTRY_FIELDS_COUNT = 6;
+
+// Mirrors `decode_list` over a nested list item, list items keep their header.
+const decodeNestedList = (
+  name: string,
+  rlp: number[],
+  item: RlpItem,
+  maxFields: number
+) => {
+  assertCheck(item.isList, `${name}: Invalid RLP type`);
+  const nested = sliceRlpItem(rlp, item);
+  return { rlp: nested, items: decodeRlpList(nested, maxFields) };
+};
+
+const readStructs = (map: InputMap, key: string) =>
+  readBoundedVec(map, key).map((value) => {
+    assertCheck(
+      typeof value === 'object' && !Array.isArray(value),
+      `Input ${key} is not a struct`
+    );
+    return value as InputMap;
+  });
+
+const assertAccessListEquals = (
+  rlp: number[],
+  item: RlpItem,
+  fields: InputMap
+) => {
+  const accessList = readStructs(fields, 'access_list');
+  const list = decodeNestedList(
+    'Access list',
+    rlp,
+    item,
+    readBoundedVecCapacity(fields, 'access_list')
+  );
+  assertCheck(
+    list.items.length === accessList.length,
+    'Access list: Invalid length'
+  );
+
+  for (const [i, entryItem] of list.items.entries()) {
+    const entry = decodeNestedList(
+      'Access list entry',
+      list.rlp,
+      entryItem,
+      ACCESS_LIST_ENTRY_FIELDS_COUNT
+    );
+    assertCheck(
+      entry.items.length === ACCESS_LIST_ENTRY_FIELDS_COUNT,
+      'Access list entry: Invalid number of fields'
+    );
+
+    const expected = accessList[i] as InputMap;
+    assertRlpBytes(
+      'Access list address',
+      entry.rlp,
+      getRlpItem(entry.items, 0),
+      readBytes(expected, 'address')
+    );
+
+    const storageKeys = readBoundedVec(expected, 'storage_keys');
+    const keys = decodeNestedList(
+      'Access list storage keys',
+      entry.rlp,
+      getRlpItem(entry.items, 1),
+      readBoundedVecCapacity(expected, 'storage_keys')
+    );
+    assertCheck(
+      keys.items.length === storageKeys.length,
+      'Access list storage keys: Invalid length'
+    );
+    for (const [j, key] of keys.items.entries()) {
+      assertRlpBytes(
+        'Access list storage key',
+        keys.rlp,
+        key,
+        toByteArray(storageKeys[j] as InputValue, 'storage_keys')
+      );
+    }
+  }
+};
+
+const assertBlobHashesEqual = (
+  rlp: number[],
+  item: RlpItem,
+  fields: InputMap
+) => {
+  const blobVersionedHashes = readBoundedVec(fields, 'blob_versioned_hashes');
+  const hashes = decodeNestedList(
+    'Blob versioned hashes',
+    rlp,
+    item,
+    readBoundedVecCapacity(fields, 'blob_versioned_hashes')
+  );
+  assertCheck(
+    hashes.items.length === blobVersionedHashes.length,
+    'Blob versioned hashes: Invalid length'
+  );
+  for (const [i, hash] of hashes.items.entries()) {
+    assertRlpBytes(
+      'Blob versioned hash',
+      hashes.rlp,
+      hash,
+      toByteArray(blobVersionedHashes[i] as InputValue, 'blob_versioned_hashes')
+    );
+  }
+};
+
+const assertAuthorizationListEquals = (
+  rlp: number[],
+  item: RlpItem,
+  fields: InputMap
+) => {
+  const authorizationList = readStructs(fields, 'authorization_list');
+  const list = decodeNestedList(
+    'Authorization list',
+    rlp,
+    item,
+    readBoundedVecCapacity(fields, 'authorization_list')
+  );
+  assertCheck(
+    list.items.length === authorizationList.length,
+    'Authorization list: Invalid length'
+  );
+
+  for (const [i, entryItem] of list.items.entries()) {
+    const entry = decodeNestedList(
+      'Authorization entry',
+      list.rlp,
+      entryItem,
+      AUTHORIZATION_ENTRY_FIELDS_COUNT
+    );
+    assertCheck(
+      entry.items.length === AUTHORIZATION_ENTRY_FIELDS_COUNT,
+      'Authorization entry: Invalid number of fields'
+    );
+
+    const expected = authorizationList[i] as InputMap;
+    const field = (index: number) => getRlpItem(entry.items, index);
+    assertRlpUint(
+      'Authorization chain id',
+      entry.rlp,
+      field(0),
+      readBigInt(expected, 'chain_id')
+    );
+    assertRlpBytes(
+      'Authorization address',
+      entry.rlp,
+      field(1),
+      readBytes(expected, 'address')
+    );
+    assertRlpUint(
+      'Authorization nonce',
+      entry.rlp,
+      field(2),
+      readBigInt(expected, 'nonce')
+    );
+    assertRlpUint(
+      'Authorization V',
+      entry.rlp,
+      field(3),
+      readBigInt(expected, 'v')
+    );
+    assertRlpBytes(
+      'Authorization R',
+      entry.rlp,
+      field(4),
+      readBytes(expected, 'r')
+    );
+    assertRlpBytes(
+      'Authorization S',
+      entry.rlp,
+      field(5),
+      readBytes(expected, 's')
+    );
+  }
+};
+
+// Mirrors `assert_tx_fields_rlp_equals`.
+const assertTransactionFieldsEqual = (
+  rlp: number[],
+  items: RlpItem[],
+  txType: number,
+  v: bigint,
+  fields: InputMap
+) => {
+  const item = (index: number) => getRlpItem(items, index);
+  const chainId = readBigInt(fields, 'chain_id');
+  const gasPrice = readBigInt(fields, 'gas_price');
+  const maxPriorityFeePerGas = readBigInt(fields, 'max_priority_fee_per_gas');
+  const maxFeePerGas = readBigInt(fields, 'max_fee_per_gas');
+  const maxFeePerBlobGas = readBigInt(fields, 'max_fee_per_blob_gas');
+  const accessListLength = readBoundedVec(fields, 'access_list').length;
+
+  if (txType === 0) {
+    assertCheck(chainId === getLegacyChainId(v), 'Chain id: Does not match V');
+    assertRlpUint('Gas price', rlp, item(1), gasPrice);
+    assertCheck(accessListLength === 0, 'Access list: Expected empty');
+  } else {
+    assertRlpUint('Chain id', rlp, item(0), chainId);
+  }
+
+  if (txType === 1) {
+    assertRlpUint('Gas price', rlp, item(2), gasPrice);
+    assertAccessListEquals(rlp, item(7), fields);
+  }
+
+  if (txType >= 2) {
+    assertCheck(gasPrice === 0n, 'Gas price: Expected zero');
+    assertRlpUint(
+      'Max priority fee per gas',
+      rlp,
+      item(2),
+      maxPriorityFeePerGas
+    );
+    assertRlpUint('Max fee per gas', rlp, item(3), maxFeePerGas);
+    assertAccessListEquals(rlp, item(8), fields);
+  } else {
+    assertCheck(
+      maxPriorityFeePerGas === 0n,
+      'Max priority fee per gas: Expected zero'
+    );
+    assertCheck(maxFeePerGas === 0n, 'Max fee per gas: Expected zero');
+  }
+
+  if (txType === 3) {
+    assertRlpUint('Max fee per blob gas', rlp, item(9), maxFeePerBlobGas);
+    assertBlobHashesEqual(rlp, item(10), fields);
+  } else {
+    assertCheck(maxFeePerBlobGas === 0n, 'Max fee per blob gas: Expected zero');
+    assertCheck(
+      readBoundedVec(fields, 'blob_versioned_hashes').length === 0,
+      'Blob versioned hashes: Expected empty'
+    );
+  }
+
+  if (txType === 4) {
+    assertAuthorizationListEquals(rlp, item(9), fields);
+  } else {
+    assertCheck(
+      readBoundedVec(fields, 'authorization_list').length === 0,
+      'Authorization list: Expected empty'
+    );
+  }
+};
+
+const encodeListHeader = (length: number) => {
+  if (length < 56) return [0xc0 + length];
+  if (length < 256) return [0xf8, length];
+  return [0xf9, length >> 8, length & 0xff];
+};
+
+// Mirrors `get_signing_payload`: the fields up to `v`, behind a new list header.
+const getSigningPayload = (
+  rlp: number[],
+  items: RlpItem[],
+  txType: number,
+  v: bigint
+) => {
+  const signature = (TRANSACTION_TYPE_FIELD_LAYOUT[txType] as number[])[6];
+  const vItem = getRlpItem(items, signature as number);
+  const vHeaderLength =
+    vItem.length === 1 && (rlp[vItem.offset] ?? 0) < 0x80 ? 0 : 1;
+  const fields = rlp.slice(
+    decodeRlpHeader(rlp).offset,
+    vItem.offset - vHeaderLength
+  );
+
+  // EIP-155 transactions sign `chain_id, 0, 0` in place of `v, r, s`.
+  const chainId = Number(getLegacyChainId(v));
+  const suffix = txType === 0 && v >= 35n ? [chainId || 0x80, 0x80, 0x80] : [];
+  const body = [...fields, ...suffix];
+
+  return [
+    ...(txType === 0 ? [] : [txType]),
+    ...encodeListHeader(body.length),
+    ...body,
+  ];
+};
+
+// Replays `verify_transaction_proof` over the transaction proof inputs, and
+// `assert_tx_fields_rlp_equals` or `verify_transaction_sender` when their inputs are provided.
+// The sender's signature is not replayed, the builder checks it when recovering the public key.
+export const verifyTransactionInputs = (inputs: object) => {
+  const map = toInputMap(inputs);
+  const { run, runMerkleProof, done } = createReport();
+  let transaction = {} as InputMap;
+  let proof = {} as PaddedProofInput;
+  let root: number[] = [];
+  let txType = 0;
+  let rlp: number[] = [];
+  let items: RlpItem[] = [];
+
+  run('inputs', () => {
+    transaction = readStruct(map, 'transaction');
+    proof = readProofInput(map, 'transaction_proof');
+    root = readBytes(map, 'transaction_root');
+    txType = Number(readBigInt(map, 'transaction_type'));
+  }) &&
+    run('transaction_index', () =>
+      assertTransactionIndexEquals(
+        byteValue(proof.key),
+        readBigInt(map, 'transaction_index')
+      )
+    ) &&
+    run('transaction', () => {
+      const split = splitIntoTxTypeAndRlp(
+        txType === 0,
+        toRightPadded(proof.value)
+      );
+      assertCheck(split.type === txType, 'Invalid Transaction Type type');
+
+      rlp = split.rlp;
+      const layout = TRANSACTION_TYPE_FIELD_LAYOUT[txType];
+      assertCheck(layout !== undefined, 'Index out of bounds');
+      const [count, nonce, gasLimit, to, value, data, signature] =
+        layout as number[];
+
+      items = decodeRlpList(rlp, MAX_TRANSACTION_FIELDS_COUNT);
+      assertCheck(
+        items.length === count,
+        'Invalid number of fields in transaction RLP'
+      );
+
+      const item = (index: number | undefined) =>
+        getRlpItem(items, index as number);
+
+      assertRlpUint(
+        'Nonce',
+        rlp,
+        item(nonce),
+        readBigInt(transaction, 'nonce')
+      );
+      assertRlpUint(
+        'Gas limit',
+        rlp,
+        item(gasLimit),
+        readBigInt(transaction, 'gas_limit')
+      );
+
+      const toAddress = readOption(transaction, 'to');
+      if (toAddress !== undefined) {
+        assertRlpBytes('To', rlp, item(to), toByteArray(toAddress, 'to'));
+      } else {
+        assertCheck(!item(to).isList, 'To: Invalid RLP type');
+        assertCheck(item(to).length === 0, 'To: Expected empty string');
+      }
+
+      assertRlpUint('Value', rlp, item(value), readU128(transaction, 'value'));
+      assertRlpBytes(
+        'Data',
+        rlp,
+        item(data),
+        readBoundedVec(transaction, 'data').map((x) =>
+          Number(toBigInt(x, 'data'))
+        )
+      );
+
+      const sig = signature as number;
+      assertRlpUint('V', rlp, item(sig), readBigInt(transaction, 'v'));
+      assertRlpBytes('R', rlp, item(sig + 1), readBytes(transaction, 'r'));
+      assertRlpBytes('S', rlp, item(sig + 2), readBytes(transaction, 's'));
+    }) &&
+    (map.transaction_fields === undefined ||
+      run('transaction_fields', () =>
+        assertTransactionFieldsEqual(
+          rlp,
+          items,
+          txType,
+          readBigInt(transaction, 'v'),
+          readStruct(map, 'transaction_fields')
+        )
+      )) &&
+    (map.transaction_sender === undefined ||
+      run('transaction_sender', () => {
+        const payload = getSigningPayload(
+          rlp,
+          items,
+          txType,
+          readBigInt(transaction, 'v')
+        );
+        assertCheck(
+          bytesEqual(
+            Array.from(keccak256(Uint8Array.from(payload), 'bytes')),
+            readBytes(readStruct(map, 'transaction_sender'), 'signing_hash')
+          ),
+          'Signing hash: Does not match the transaction'
+        );
+      })) &&
+    runMerkleProof('transaction_proof', proof, root);
+
+  return done();
+};
+
+// Replays `verify_receipt_proof`, and `extract_log` when a log is provided.
+export const verifyReceiptInputs = (inputs: object) => {
+  const map = toInputMap(inputs);
+  const { run, runMerkleProof, done } = createReport();
+  let receipt = {} as InputMap;
+  let proof = {} as PaddedProofInput;
+  let root: number[] = [];
+  let rlp: number[] = [];
+  let items: RlpItem[] = [];
+
+  const valid =
+    run('inputs', () => {
+      receipt = readStruct(map, 'receipt');
+      proof = readProofInput(map, 'receipt_proof');
+      root = readBytes(map, 'receipt_root');
+    }) &&
+    run('transaction_index', () =>
+      assertTransactionIndexEquals(
+        byteValue(proof.key),
+        readBigInt(map, 'transaction_index')
+      )
+    ) &&
+    run('receipt', () => {
+      const txType = readBigInt(map, 'transaction_type');
+      rlp = splitIntoTxTypeAndRlp(
+        txType === 0n,
+        toRightPadded(proof.value)
+      ).rlp;
+
+      items = decodeRlpList(rlp, RECEIPT_FIELDS_COUNT);
+      assertCheck(
+        items.length === RECEIPT_FIELDS_COUNT,
+        'Invalid number of fields in receipt RLP'
+      );
+
+      if (readBigInt(map, 'block_number') < BYZANTIUM_BLOCK_NUMBER) {
+        const stateRoot = readOption(receipt, 'state_root');
+        assertCheck(stateRoot !== undefined, 'State root is missing');
+        assertRlpBytes(
+          'State root',
+          rlp,
+          getRlpItem(items, 0),
+          toByteArray(stateRoot as InputValue, 'state_root')
+        );
+      } else {
+        const status = readOption(receipt, 'status');
+        assertCheck(status !== undefined, 'Status is missing');
+        assertRlpUint(
+          'Status',
+          rlp,
+          getRlpItem(items, 0),
+          toBigInt(status as InputValue, 'status')
+        );
+      }
+
+      assertRlpUint(
+        'Cumulative gas used',
+        rlp,
+        getRlpItem(items, 1),
+        readBigInt(receipt, 'cumulative_gas_used')
+      );
+      assertRlpBytes(
+        'Logs bloom',
+        rlp,
+        getRlpItem(items, 2),
+        readBytes(receipt, 'logs_bloom')
+      );
+    }) &&
+    runMerkleProof('receipt_proof', proof, root);
+
+  if (valid && map.log !== undefined && map.log_index !== undefined) {
+    run('log', () => {
+      const logs = sliceRlpItem(rlp, getRlpItem(items, 3));
+      const logIndex = Number(readBigInt(map, 'log_index'));
+      const logRlp = sliceRlpItem(
+        logs,
+        getRlpItem(decodeRlpList(logs, Number.POSITIVE_INFINITY), logIndex)
+      );
+
+      const logItems = decodeRlpList(logRlp, LOG_FIELDS_COUNT);
+      assertCheck(
+        logItems.length === LOG_FIELDS_COUNT,
+        'Invalid Log fields count'
+      );
+
+      const topicsRlp = sliceRlpItem(logRlp, getRlpItem(logItems, 1));
+      const topics = decodeRlpList(topicsRlp, Number.POSITIVE_INFINITY).map(
+        (topic) => sliceRlpItem(topicsRlp, topic)
+      );
+
+      const log = readStruct(map, 'log');
+      const expectedTopics = readBoundedVec(log, 'topics').map((topic) =>
+        toByteArray(topic, 'topics')
+      );
+      const expectedData = readBoundedVec(log, 'data').map((x) =>
+        Number(toBigInt(x, 'data'))
+      );
+
+      assertCheck(
+        bytesEqual(
+          sliceRlpItem(logRlp, getRlpItem(logItems, 0)),
+          readBytes(log, 'address')
+        ) &&
+          topics.length === expectedTopics.length &&
+          topics.every((topic, i) =>
+            bytesEqual(topic, expectedTopics[i] ?? [])
+          ) &&
+          bytesEqual(
+            sliceRlpItem(logRlp, getRlpItem(logItems, 2)),
+            expectedData
+          ),
+        'Log does not match the receipt'
+      );
+    });
+  }
+
+  return done();
+};
+
+// Replays `verify_withdrawal_proof` over the withdrawal proof inputs.
+export const verifyWithdrawalInputs = (inputs: object) => {
+  const map = toInputMap(inputs);
+  const { run, runMerkleProof, done } = createReport();
+  let withdrawal = {} as InputMap;
+  let proof = {} as PaddedProofInput;
+  let root: number[] = [];
+
+  run('inputs', () => {
+    withdrawal = readStruct(map, 'withdrawal');
+    proof = readProofInput(map, 'withdrawal_proof');
+    root = readBytes(map, 'withdrawals_root');
+  }) &&
+    run('withdrawal_index', () =>
+      assertTransactionIndexEquals(
+        byteValue(proof.key),
+        readBigInt(map, 'withdrawal_index')
+      )
+    ) &&
+    run('withdrawal', () => {
+      const rlp = toRightPadded(proof.value);
+      const items = decodeListOfSmallStrings(rlp, WITHDRAWAL_FIELDS_COUNT);
+      assertCheck(
+        items.length === WITHDRAWAL_FIELDS_COUNT,
+        'Invalid number of fields in withdrawal RLP'
+      );
+
+      const item = (index: number) => getRlpItem(items, index);
+      assertRlpUint('Index', rlp, item(0), readBigInt(withdrawal, 'index'));
+      assertRlpUint(
+        'Validator index',
+        rlp,
+        item(1),
+        readBigInt(withdrawal, 'validator_index')
+      );
+      assertRlpBytes('Address', rlp, item(2), readBytes(withdrawal, 'address'));
+      assertRlpUint('Amount', rlp, item(3), readBigInt(withdrawal, 'amount'));
+    }) &&
+    runMerkleProof('withdrawal_proof', proof, root);
+
+  return done();
+};
+
+// Splits combined inputs into one input per proof, `fields` maps each array input to its per-proof key.
+const verifyEach = (
+  inputs: object,
+  fields: Record<string, string>,
+  shared: string[],
+  verifyEntry: (inputs: object) => VerificationReport
+): VerificationReport => {
+  const map = toInputMap(inputs);
+  const { checks, run } = createCheckRunner();
+  let columns: [string, InputValue[]][] = [];
+
+  const read = run('inputs', () => {
+    columns = Object.entries(fields).map(([key, entryKey]) => {
+      const value = readField(map, key);
+      assertCheck(Array.isArray(value), `Input ${key} is not an array`);
+      return [entryKey, value as InputValue[]];
+    });
+    for (const key of shared) readField(map, key);
+
+    const lengths = new Set(columns.map(([, values]) => values.length));
+    assertCheck(lengths.size === 1, 'Input arrays differ in length');
+  });
+  if (!read) return { valid: false, checks };
+
+  const count = columns[0]?.[1].length ?? 0;
+  for (let i = 0; i < count; i++) {
+    const entry: InputMap = Object.fromEntries([
+      ...shared.map((key) => [key, map[key]]),
+      ...columns.map(([key, values]) => [key, values[i]]),
+    ]);
+
+    const report = verifyEntry(entry);
+    checks.push(
+      ...report.checks.map((c) => ({ ...c, check: `${i}.${c.check}` }))
+    );
+    if (!report.valid) return { valid: false, checks };
+  }
+
+  return { valid: true, checks };
+};
+
+// Replays `verify_transaction_proofs`, every transaction against the shared transaction root.
+export const verifyTransactionProofsInputs = (inputs: object) =>
+  verifyEach(
+    inputs,
+    {
+      transaction_indices: 'transaction_index',
+      transaction_types: 'transaction_type',
+      transactions: 'transaction',
+      transaction_proofs: 'transaction_proof',
+    },
+    ['transaction_root'],
+    verifyTransactionInputs
+  );
+
+// Replays `verify_receipt_proofs`, every receipt against the shared receipt root.
+export const verifyReceiptProofsInputs = (inputs: object) =>
+  verifyEach(
+    inputs,
+    {
+      transaction_indices: 'transaction_index',
+      transaction_types: 'transaction_type',
+      receipts: 'receipt',
+      receipt_proofs: 'receipt_proof',
+    },
+    ['block_number', 'receipt_root'],
+    verifyReceiptInputs
+  );
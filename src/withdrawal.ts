@@ -0,0 +1,128 @@
+import { Trie } from '@ethereumjs/trie';
+import { U64 } from '@zkpersona/noir-helpers';
+import { type GetBlockParameters, type PublicClient, toHex } from 'viem';
+import { type CacheOpts, createTrieProver } from './cache';
+import {
+  type BlockPayload,
+  type ProofVerifyOpts,
+  encodeIndex,
+  encodeProofInput,
+  parseBytes32,
+  parseRpcBlock,
+  parseWithdrawal,
+  serializeWithdrawal,
+} from './helpers';
+
+// Matches `MAX_WITHDRAWAL_LENGTH`, the encoding of a withdrawal is bounded.
+const MAX_WITHDRAWAL_LENGTH = 49;
+
+type WithdrawalProofSizeOpts = {
+  maxLeafLength?: number;
+  maxDepthNoLeaf?: number;
+};
+
+export type GetWithdrawalProofOpts = GetBlockParameters &
+  WithdrawalProofSizeOpts &
+  ProofVerifyOpts &
+  CacheOpts & {
+    withdrawalIndex: number;
+  };
+
+export type BuildWithdrawalProofOpts = WithdrawalProofSizeOpts &
+  ProofVerifyOpts &
+  CacheOpts & {
+    block: BlockPayload;
+    // Position of the withdrawal in the block, not its global index.
+    withdrawalIndex: number;
+  };
+
+export const buildWithdrawalProof = async (opts: BuildWithdrawalProofOpts) => {
+  const {
+    maxLeafLength = 64,
+    maxDepthNoLeaf = 4,
+    withdrawalIndex,
+    verify,
+    cache,
+  } = opts;
+
+  const block = parseRpcBlock(opts.block);
+  const { withdrawals, withdrawalsRoot } = block;
+
+  if (!withdrawals || !withdrawalsRoot) {
+    throw new Error('Block has no withdrawals, it predates Shanghai');
+  }
+
+  const withdrawal = withdrawals[withdrawalIndex];
+  if (!withdrawal) throw new Error('Withdrawal not found');
+
+  const withdrawalKey = encodeIndex(withdrawalIndex);
+  const encodedWithdrawal = serializeWithdrawal(withdrawal);
+
+  const createProof = createTrieProver(
+    withdrawalsRoot,
+    async () => {
+      const withdrawalsTrie = new Trie();
+
+      for (const [index, item] of withdrawals.entries()) {
+        await withdrawalsTrie.put(
+          encodeIndex(index),
+          serializeWithdrawal(item)
+        );
+      }
+
+      if (withdrawalsRoot !== toHex(withdrawalsTrie.root())) {
+        throw new Error(
+          'Withdrawals trie root does not match block withdrawals root'
+        );
+      }
+
+      return withdrawalsTrie;
+    },
+    cache
+  );
+
+  const proofInput = encodeProofInput({
+    name: 'Withdrawal',
+    key: withdrawalKey,
+    value: encodedWithdrawal,
+    proof: await createProof(withdrawalKey, encodedWithdrawal),
+    root: withdrawalsRoot,
+    verify,
+    maxDepthNoLeaf,
+    maxLeafLength,
+    maxKeyLength: 8,
+    maxValueLength: MAX_WITHDRAWAL_LENGTH,
+  });
+
+  return {
+    withdrawal_index: new U64(withdrawalIndex),
+    withdrawal: parseWithdrawal(withdrawal),
+    withdrawal_proof: proofInput,
+    withdrawals_root: parseBytes32(withdrawalsRoot),
+  };
+};
+
+export const getWithdrawalProof = async <T extends PublicClient>(
+  publicClient: T,
+  opts: GetWithdrawalProofOpts
+) => {
+  const {
+    withdrawalIndex,
+    maxLeafLength,
+    maxDepthNoLeaf,
+    verify,
+    cache,
+    ...getBlockOpts
+  } = opts;
+
+  const block = await publicClient.getBlock(getBlockOpts);
+
+  return await buildWithdrawalProof({
+    block,
+    withdrawalIndex,
+    maxLeafLength,
+    maxDepthNoLeaf,
+    verify,
+    cache,
+  });
+};
@@ -0,0 +1,943 @@
+// Generated by `noir-ethereum codegen`, do not edit.
+
+type AbiValue<T extends string> = string & { readonly __abi?: T };
+
+export type VerifyAccountInputs = {
+  account: {
+    address: AbiValue<'u8'>[];
+    balance: AbiValue<'field'>;
+    code_hash: AbiValue<'u8'>[];
+    nonce: AbiValue<'u64'>;
+    storage_hash: AbiValue<'u8'>[];
+  };
+  account_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  state_root: AbiValue<'u8'>[];
+};
+
+export const verifyAccountInputShape = {
+  account: {
+    address: ['array', 20, 'u8'],
+    balance: 'field',
+    code_hash: ['array', 32, 'u8'],
+    nonce: 'u64',
+    storage_hash: ['array', 32, 'u8'],
+  },
+  account_proof: {
+    key: ['array', 66, 'u8'],
+    value: ['array', 110, 'u8'],
+    proof: {
+      nodes: ['array', 8, ['array', 532, 'u8']],
+      leaf: ['array', 148, 'u8'],
+      depth: 'u64',
+    },
+  },
+  state_root: ['array', 32, 'u8'],
+} as const;
+
+export type VerifyAccountCodeInputs = {
+  account: {
+    address: AbiValue<'u8'>[];
+    balance: AbiValue<'field'>;
+    code_hash: AbiValue<'u8'>[];
+    nonce: AbiValue<'u64'>;
+    storage_hash: AbiValue<'u8'>[];
+  };
+  account_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  state_root: AbiValue<'u8'>[];
+  code: {
+    storage: AbiValue<'u8'>[];
+    len: AbiValue<'u32'>;
+  };
+  code_range: {
+    offset: AbiValue<'u32'>;
+    bytes: {
+      storage: AbiValue<'u8'>[];
+      len: AbiValue<'u32'>;
+    };
+  };
+  code_selector: {
+    offset: AbiValue<'u32'>;
+    selector: AbiValue<'u8'>[];
+  };
+};
+
+export const verifyAccountCodeInputShape = {
+  account: {
+    address: ['array', 20, 'u8'],
+    balance: 'field',
+    code_hash: ['array', 32, 'u8'],
+    nonce: 'u64',
+    storage_hash: ['array', 32, 'u8'],
+  },
+  account_proof: {
+    key: ['array', 66, 'u8'],
+    value: ['array', 110, 'u8'],
+    proof: {
+      nodes: ['array', 8, ['array', 532, 'u8']],
+      leaf: ['array', 148, 'u8'],
+      depth: 'u64',
+    },
+  },
+  state_root: ['array', 32, 'u8'],
+  code: {
+    storage: ['array', 24576, 'u8'],
+    len: 'u32',
+  },
+  code_range: {
+    offset: 'u32',
+    bytes: {
+      storage: ['array', 32, 'u8'],
+      len: 'u32',
+    },
+  },
+  code_selector: {
+    offset: 'u32',
+    selector: ['array', 4, 'u8'],
+  },
+} as const;
+
+export type VerifyAccountExclusionInputs = {
+  address: AbiValue<'u8'>[];
+  account_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  state_root: AbiValue<'u8'>[];
+};
+
+export const verifyAccountExclusionInputShape = {
+  address: ['array', 20, 'u8'],
+  account_proof: {
+    key: ['array', 66, 'u8'],
+    value: ['array', 110, 'u8'],
+    proof: {
+      nodes: ['array', 8, ['array', 532, 'u8']],
+      leaf: ['array', 148, 'u8'],
+      depth: 'u64',
+    },
+  },
+  state_root: ['array', 32, 'u8'],
+} as const;
+
+export type VerifyAccountStorageInputs = {
+  account: {
+    address: AbiValue<'u8'>[];
+    balance: AbiValue<'field'>;
+    code_hash: AbiValue<'u8'>[];
+    nonce: AbiValue<'u64'>;
+    storage_hash: AbiValue<'u8'>[];
+  };
+  account_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  state_root: AbiValue<'u8'>[];
+  storage_proofs: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  }[];
+};
+
+export const verifyAccountStorageInputShape = {
+  account: {
+    address: ['array', 20, 'u8'],
+    balance: 'field',
+    code_hash: ['array', 32, 'u8'],
+    nonce: 'u64',
+    storage_hash: ['array', 32, 'u8'],
+  },
+  account_proof: {
+    key: ['array', 66, 'u8'],
+    value: ['array', 110, 'u8'],
+    proof: {
+      nodes: ['array', 8, ['array', 532, 'u8']],
+      leaf: ['array', 148, 'u8'],
+      depth: 'u64',
+    },
+  },
+  state_root: ['array', 32, 'u8'],
+  storage_proofs: [
+    'array',
+    2,
+    {
+      key: ['array', 66, 'u8'],
+      value: ['array', 33, 'u8'],
+      proof: {
+        nodes: ['array', 6, ['array', 532, 'u8']],
+        leaf: ['array', 69, 'u8'],
+        depth: 'u64',
+      },
+    },
+  ],
+} as const;
+
+export type VerifyHeaderInputs = {
+  chain_id: AbiValue<'u64'>;
+  block_header_partial: {
+    number: AbiValue<'u64'>;
+    hash: AbiValue<'u8'>[];
+    state_root: AbiValue<'u8'>[];
+    transactions_root: AbiValue<'u8'>[];
+    receipts_root: AbiValue<'u8'>[];
+    withdrawals_root: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>[];
+    };
+  };
+  block_header_rlp: {
+    storage: AbiValue<'u8'>[];
+    len: AbiValue<'u32'>;
+  };
+};
+
+export const verifyHeaderInputShape = {
+  chain_id: 'u64',
+  block_header_partial: {
+    number: 'u64',
+    hash: ['array', 32, 'u8'],
+    state_root: ['array', 32, 'u8'],
+    transactions_root: ['array', 32, 'u8'],
+    receipts_root: ['array', 32, 'u8'],
+    withdrawals_root: {
+      _is_some: 'bool',
+      _value: ['array', 32, 'u8'],
+    },
+  },
+  block_header_rlp: {
+    storage: ['array', 742, 'u8'],
+    len: 'u32',
+  },
+} as const;
+
+export type VerifyHeaderChainInputs = {
+  chain_id: AbiValue<'u64'>;
+  chain_length: AbiValue<'u64'>;
+  block_header_partials: {
+    number: AbiValue<'u64'>;
+    hash: AbiValue<'u8'>[];
+    state_root: AbiValue<'u8'>[];
+    transactions_root: AbiValue<'u8'>[];
+    receipts_root: AbiValue<'u8'>[];
+    withdrawals_root: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>[];
+    };
+  }[];
+  block_header_rlps: {
+    storage: AbiValue<'u8'>[];
+    len: AbiValue<'u32'>;
+  }[];
+};
+
+export const verifyHeaderChainInputShape = {
+  chain_id: 'u64',
+  chain_length: 'u64',
+  block_header_partials: [
+    'array',
+    8,
+    {
+      number: 'u64',
+      hash: ['array', 32, 'u8'],
+      state_root: ['array', 32, 'u8'],
+      transactions_root: ['array', 32, 'u8'],
+      receipts_root: ['array', 32, 'u8'],
+      withdrawals_root: {
+        _is_some: 'bool',
+        _value: ['array', 32, 'u8'],
+      },
+    },
+  ],
+  block_header_rlps: [
+    'array',
+    8,
+    {
+      storage: ['array', 742, 'u8'],
+      len: 'u32',
+    },
+  ],
+} as const;
+
+export type VerifyReceiptInputs = {
+  block_number: AbiValue<'u64'>;
+  transaction_index: AbiValue<'u64'>;
+  transaction_type: AbiValue<'u8'>;
+  receipt: {
+    state_root: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>[];
+    };
+    status: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>;
+    };
+    cumulative_gas_used: AbiValue<'u64'>;
+    logs_bloom: AbiValue<'u8'>[];
+  };
+  receipt_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  receipt_root: AbiValue<'u8'>[];
+};
+
+export const verifyReceiptInputShape = {
+  block_number: 'u64',
+  transaction_index: 'u64',
+  transaction_type: 'u8',
+  receipt: {
+    state_root: {
+      _is_some: 'bool',
+      _value: ['array', 32, 'u8'],
+    },
+    status: {
+      _is_some: 'bool',
+      _value: 'u8',
+    },
+    cumulative_gas_used: 'u64',
+    logs_bloom: ['array', 256, 'u8'],
+  },
+  receipt_proof: {
+    key: ['array', 8, 'u8'],
+    value: ['array', 512, 'u8'],
+    proof: {
+      nodes: ['array', 4, ['array', 532, 'u8']],
+      leaf: ['array', 512, 'u8'],
+      depth: 'u64',
+    },
+  },
+  receipt_root: ['array', 32, 'u8'],
+} as const;
+
+export type VerifyReceiptLogInputs = {
+  block_number: AbiValue<'u64'>;
+  transaction_index: AbiValue<'u64'>;
+  transaction_type: AbiValue<'u8'>;
+  receipt: {
+    state_root: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>[];
+    };
+    status: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>;
+    };
+    cumulative_gas_used: AbiValue<'u64'>;
+    logs_bloom: AbiValue<'u8'>[];
+  };
+  receipt_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  receipt_root: AbiValue<'u8'>[];
+  log_index: AbiValue<'u64'>;
+  log: {
+    address: AbiValue<'u8'>[];
+    topics: {
+      storage: AbiValue<'u8'>[][];
+      len: AbiValue<'u32'>;
+    };
+    data: {
+      storage: AbiValue<'u8'>[];
+      len: AbiValue<'u32'>;
+    };
+  };
+};
+
+export const verifyReceiptLogInputShape = {
+  block_number: 'u64',
+  transaction_index: 'u64',
+  transaction_type: 'u8',
+  receipt: {
+    state_root: {
+      _is_some: 'bool',
+      _value: ['array', 32, 'u8'],
+    },
+    status: {
+      _is_some: 'bool',
+      _value: 'u8',
+    },
+    cumulative_gas_used: 'u64',
+    logs_bloom: ['array', 256, 'u8'],
+  },
+  receipt_proof: {
+    key: ['array', 8, 'u8'],
+    value: ['array', 512, 'u8'],
+    proof: {
+      nodes: ['array', 4, ['array', 532, 'u8']],
+      leaf: ['array', 512, 'u8'],
+      depth: 'u64',
+    },
+  },
+  receipt_root: ['array', 32, 'u8'],
+  log_index: 'u64',
+  log: {
+    address: ['array', 20, 'u8'],
+    topics: {
+      storage: ['array', 4, ['array', 32, 'u8']],
+      len: 'u32',
+    },
+    data: {
+      storage: ['array', 256, 'u8'],
+      len: 'u32',
+    },
+  },
+} as const;
+
+export type VerifyReceiptsInputs = {
+  block_number: AbiValue<'u64'>;
+  transaction_indices: AbiValue<'u64'>[];
+  transaction_types: AbiValue<'u8'>[];
+  receipts: {
+    state_root: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>[];
+    };
+    status: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>;
+    };
+    cumulative_gas_used: AbiValue<'u64'>;
+    logs_bloom: AbiValue<'u8'>[];
+  }[];
+  receipt_proofs: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  }[];
+  receipt_root: AbiValue<'u8'>[];
+};
+
+export const verifyReceiptsInputShape = {
+  block_number: 'u64',
+  transaction_indices: ['array', 2, 'u64'],
+  transaction_types: ['array', 2, 'u8'],
+  receipts: [
+    'array',
+    2,
+    {
+      state_root: {
+        _is_some: 'bool',
+        _value: ['array', 32, 'u8'],
+      },
+      status: {
+        _is_some: 'bool',
+        _value: 'u8',
+      },
+      cumulative_gas_used: 'u64',
+      logs_bloom: ['array', 256, 'u8'],
+    },
+  ],
+  receipt_proofs: [
+    'array',
+    2,
+    {
+      key: ['array', 8, 'u8'],
+      value: ['array', 512, 'u8'],
+      proof: {
+        nodes: ['array', 4, ['array', 532, 'u8']],
+        leaf: ['array', 512, 'u8'],
+        depth: 'u64',
+      },
+    },
+  ],
+  receipt_root: ['array', 32, 'u8'],
+} as const;
+
+export type VerifyStorageInputs = {
+  storage_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  storage_root: AbiValue<'u8'>[];
+};
+
+export const verifyStorageInputShape = {
+  storage_proof: {
+    key: ['array', 66, 'u8'],
+    value: ['array', 33, 'u8'],
+    proof: {
+      nodes: ['array', 6, ['array', 532, 'u8']],
+      leaf: ['array', 69, 'u8'],
+      depth: 'u64',
+    },
+  },
+  storage_root: ['array', 32, 'u8'],
+} as const;
+
+export type VerifyStorageExclusionInputs = {
+  storage_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  storage_root: AbiValue<'u8'>[];
+};
+
+export const verifyStorageExclusionInputShape = {
+  storage_proof: {
+    key: ['array', 66, 'u8'],
+    value: ['array', 33, 'u8'],
+    proof: {
+      nodes: ['array', 6, ['array', 532, 'u8']],
+      leaf: ['array', 69, 'u8'],
+      depth: 'u64',
+    },
+  },
+  storage_root: ['array', 32, 'u8'],
+} as const;
+
+export type VerifyTransactionInputs = {
+  transaction_index: AbiValue<'u64'>;
+  transaction_type: AbiValue<'u8'>;
+  transaction: {
+    nonce: AbiValue<'u64'>;
+    gas_limit: AbiValue<'u64'>;
+    to: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>[];
+    };
+    value: {
+      lo: AbiValue<'field'>;
+      hi: AbiValue<'field'>;
+    };
+    data: {
+      storage: AbiValue<'u8'>[];
+      len: AbiValue<'u32'>;
+    };
+    v: AbiValue<'u8'>;
+    r: AbiValue<'u8'>[];
+    s: AbiValue<'u8'>[];
+  };
+  transaction_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  transaction_root: AbiValue<'u8'>[];
+};
+
+export const verifyTransactionInputShape = {
+  transaction_index: 'u64',
+  transaction_type: 'u8',
+  transaction: {
+    nonce: 'u64',
+    gas_limit: 'u64',
+    to: {
+      _is_some: 'bool',
+      _value: ['array', 20, 'u8'],
+    },
+    value: {
+      lo: 'field',
+      hi: 'field',
+    },
+    data: {
+      storage: ['array', 256, 'u8'],
+      len: 'u32',
+    },
+    v: 'u8',
+    r: ['array', 32, 'u8'],
+    s: ['array', 32, 'u8'],
+  },
+  transaction_proof: {
+    key: ['array', 8, 'u8'],
+    value: ['array', 525, 'u8'],
+    proof: {
+      nodes: ['array', 4, ['array', 532, 'u8']],
+      leaf: ['array', 256, 'u8'],
+      depth: 'u64',
+    },
+  },
+  transaction_root: ['array', 32, 'u8'],
+} as const;
+
+export type VerifyTransactionFieldsInputs = {
+  transaction_index: AbiValue<'u64'>;
+  transaction_type: AbiValue<'u8'>;
+  transaction: {
+    nonce: AbiValue<'u64'>;
+    gas_limit: AbiValue<'u64'>;
+    to: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>[];
+    };
+    value: {
+      lo: AbiValue<'field'>;
+      hi: AbiValue<'field'>;
+    };
+    data: {
+      storage: AbiValue<'u8'>[];
+      len: AbiValue<'u32'>;
+    };
+    v: AbiValue<'u8'>;
+    r: AbiValue<'u8'>[];
+    s: AbiValue<'u8'>[];
+  };
+  transaction_fields: {
+    chain_id: AbiValue<'u64'>;
+    gas_price: AbiValue<'u64'>;
+    max_priority_fee_per_gas: AbiValue<'u64'>;
+    max_fee_per_gas: AbiValue<'u64'>;
+    max_fee_per_blob_gas: AbiValue<'u64'>;
+    access_list: {
+      storage: {
+        address: AbiValue<'u8'>[];
+        storage_keys: {
+          storage: AbiValue<'u8'>[][];
+          len: AbiValue<'u32'>;
+        };
+      }[];
+      len: AbiValue<'u32'>;
+    };
+    blob_versioned_hashes: {
+      storage: AbiValue<'u8'>[][];
+      len: AbiValue<'u32'>;
+    };
+    authorization_list: {
+      storage: {
+        chain_id: AbiValue<'u64'>;
+        address: AbiValue<'u8'>[];
+        nonce: AbiValue<'u64'>;
+        v: AbiValue<'u8'>;
+        r: AbiValue<'u8'>[];
+        s: AbiValue<'u8'>[];
+      }[];
+      len: AbiValue<'u32'>;
+    };
+  };
+  transaction_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  transaction_root: AbiValue<'u8'>[];
+};
+
+export const verifyTransactionFieldsInputShape = {
+  transaction_index: 'u64',
+  transaction_type: 'u8',
+  transaction: {
+    nonce: 'u64',
+    gas_limit: 'u64',
+    to: {
+      _is_some: 'bool',
+      _value: ['array', 20, 'u8'],
+    },
+    value: {
+      lo: 'field',
+      hi: 'field',
+    },
+    data: {
+      storage: ['array', 256, 'u8'],
+      len: 'u32',
+    },
+    v: 'u8',
+    r: ['array', 32, 'u8'],
+    s: ['array', 32, 'u8'],
+  },
+  transaction_fields: {
+    chain_id: 'u64',
+    gas_price: 'u64',
+    max_priority_fee_per_gas: 'u64',
+    max_fee_per_gas: 'u64',
+    max_fee_per_blob_gas: 'u64',
+    access_list: {
+      storage: [
+        'array',
+        2,
+        {
+          address: ['array', 20, 'u8'],
+          storage_keys: {
+            storage: ['array', 2, ['array', 32, 'u8']],
+            len: 'u32',
+          },
+        },
+      ],
+      len: 'u32',
+    },
+    blob_versioned_hashes: {
+      storage: ['array', 6, ['array', 32, 'u8']],
+      len: 'u32',
+    },
+    authorization_list: {
+      storage: [
+        'array',
+        2,
+        {
+          chain_id: 'u64',
+          address: ['array', 20, 'u8'],
+          nonce: 'u64',
+          v: 'u8',
+          r: ['array', 32, 'u8'],
+          s: ['array', 32, 'u8'],
+        },
+      ],
+      len: 'u32',
+    },
+  },
+  transaction_proof: {
+    key: ['array', 8, 'u8'],
+    value: ['array', 525, 'u8'],
+    proof: {
+      nodes: ['array', 4, ['array', 532, 'u8']],
+      leaf: ['array', 256, 'u8'],
+      depth: 'u64',
+    },
+  },
+  transaction_root: ['array', 32, 'u8'],
+} as const;
+
+export type VerifyTransactionSenderInputs = {
+  transaction_index: AbiValue<'u64'>;
+  transaction_type: AbiValue<'u8'>;
+  transaction: {
+    nonce: AbiValue<'u64'>;
+    gas_limit: AbiValue<'u64'>;
+    to: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>[];
+    };
+    value: {
+      lo: AbiValue<'field'>;
+      hi: AbiValue<'field'>;
+    };
+    data: {
+      storage: AbiValue<'u8'>[];
+      len: AbiValue<'u32'>;
+    };
+    v: AbiValue<'u8'>;
+    r: AbiValue<'u8'>[];
+    s: AbiValue<'u8'>[];
+  };
+  transaction_sender: {
+    signing_hash: AbiValue<'u8'>[];
+    public_key_x: AbiValue<'u8'>[];
+    public_key_y: AbiValue<'u8'>[];
+  };
+  transaction_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  transaction_root: AbiValue<'u8'>[];
+};
+
+export const verifyTransactionSenderInputShape = {
+  transaction_index: 'u64',
+  transaction_type: 'u8',
+  transaction: {
+    nonce: 'u64',
+    gas_limit: 'u64',
+    to: {
+      _is_some: 'bool',
+      _value: ['array', 20, 'u8'],
+    },
+    value: {
+      lo: 'field',
+      hi: 'field',
+    },
+    data: {
+      storage: ['array', 256, 'u8'],
+      len: 'u32',
+    },
+    v: 'u8',
+    r: ['array', 32, 'u8'],
+    s: ['array', 32, 'u8'],
+  },
+  transaction_sender: {
+    signing_hash: ['array', 32, 'u8'],
+    public_key_x: ['array', 32, 'u8'],
+    public_key_y: ['array', 32, 'u8'],
+  },
+  transaction_proof: {
+    key: ['array', 8, 'u8'],
+    value: ['array', 525, 'u8'],
+    proof: {
+      nodes: ['array', 4, ['array', 532, 'u8']],
+      leaf: ['array', 256, 'u8'],
+      depth: 'u64',
+    },
+  },
+  transaction_root: ['array', 32, 'u8'],
+} as const;
+
+export type VerifyTransactionsInputs = {
+  transaction_indices: AbiValue<'u64'>[];
+  transaction_types: AbiValue<'u8'>[];
+  transactions: {
+    nonce: AbiValue<'u64'>;
+    gas_limit: AbiValue<'u64'>;
+    to: {
+      _is_some: boolean;
+      _value: AbiValue<'u8'>[];
+    };
+    value: {
+      lo: AbiValue<'field'>;
+      hi: AbiValue<'field'>;
+    };
+    data: {
+      storage: AbiValue<'u8'>[];
+      len: AbiValue<'u32'>;
+    };
+    v: AbiValue<'u8'>;
+    r: AbiValue<'u8'>[];
+    s: AbiValue<'u8'>[];
+  }[];
+  transaction_proofs: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  }[];
+  transaction_root: AbiValue<'u8'>[];
+};
+
+export const verifyTransactionsInputShape = {
+  transaction_indices: ['array', 2, 'u64'],
+  transaction_types: ['array', 2, 'u8'],
+  transactions: [
+    'array',
+    2,
+    {
+      nonce: 'u64',
+      gas_limit: 'u64',
+      to: {
+        _is_some: 'bool',
+        _value: ['array', 20, 'u8'],
+      },
+      value: {
+        lo: 'field',
+        hi: 'field',
+      },
+      data: {
+        storage: ['array', 256, 'u8'],
+        len: 'u32',
+      },
+      v: 'u8',
+      r: ['array', 32, 'u8'],
+      s: ['array', 32, 'u8'],
+    },
+  ],
+  transaction_proofs: [
+    'array',
+    2,
+    {
+      key: ['array', 8, 'u8'],
+      value: ['array', 525, 'u8'],
+      proof: {
+        nodes: ['array', 4, ['array', 532, 'u8']],
+        leaf: ['array', 256, 'u8'],
+        depth: 'u64',
+      },
+    },
+  ],
+  transaction_root: ['array', 32, 'u8'],
+} as const;
+
+export type VerifyWithdrawalInputs = {
+  withdrawal_index: AbiValue<'u64'>;
+  withdrawal: {
+    index: AbiValue<'u64'>;
+    validator_index: AbiValue<'u64'>;
+    address: AbiValue<'u8'>[];
+    amount: AbiValue<'u64'>;
+  };
+  withdrawal_proof: {
+    key: AbiValue<'u8'>[];
+    value: AbiValue<'u8'>[];
+    proof: {
+      nodes: AbiValue<'u8'>[][];
+      leaf: AbiValue<'u8'>[];
+      depth: AbiValue<'u64'>;
+    };
+  };
+  withdrawals_root: AbiValue<'u8'>[];
+};
+
+export const verifyWithdrawalInputShape = {
+  withdrawal_index: 'u64',
+  withdrawal: {
+    index: 'u64',
+    validator_index: 'u64',
+    address: ['array', 20, 'u8'],
+    amount: 'u64',
+  },
+  withdrawal_proof: {
+    key: ['array', 8, 'u8'],
+    value: ['array', 49, 'u8'],
+    proof: {
+      nodes: ['array', 4, ['array', 532, 'u8']],
+      leaf: ['array', 64, 'u8'],
+      depth: 'u64',
+    },
+  },
+  withdrawals_root: ['array', 32, 'u8'],
+} as const;
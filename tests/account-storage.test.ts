@@ -0,0 +1,42 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import circuit from '../target/verify_account_storage.json' assert {
+  type: 'json',
+};
+
+import type { CompiledCircuit } from '@noir-lang/noir_js';
+import { type PublicClient, createPublicClient } from 'viem';
+import { mainnet } from 'viem/chains';
+import { proveStorageProofs, verifyStorageProofs } from '../src';
+import { getENSNameStorageSlot, getFixtureTransport } from './helpers';
+
+describe('Account Storage Proofs Verification', () => {
+  let publicClient: PublicClient;
+
+  beforeAll(() => {
+    publicClient = createPublicClient({
+      chain: mainnet,
+      transport: getFixtureTransport('account-storage'),
+    });
+  });
+
+  it('should prove multiple storage slots against the state root', async () => {
+    const result = await proveStorageProofs(publicClient, {
+      address: '0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63',
+      slots: [
+        getENSNameStorageSlot('vitalik.eth'),
+        getENSNameStorageSlot('nick.eth'),
+      ],
+      circuit: circuit as CompiledCircuit,
+    });
+    console.log('prove-account-storage', result.timing);
+
+    console.time('verify-account-storage');
+    const isVerified = await verifyStorageProofs(result, {
+      circuit: circuit as CompiledCircuit,
+    });
+    console.timeEnd('verify-account-storage');
+
+    expect(isVerified).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import { fileURLToPath } from 'node:url';
+import {
+  type RpcBlock,
+  type RpcProof,
+  createPublicClient,
+  formatBlock,
+  pad,
+} from 'viem';
+import {
+  buildAccountProof,
+  buildBlockHeader,
+  buildReceiptProof,
+  buildStorageProof,
+  buildTransactionProof,
+  fixtureTransport,
+  toInputMap,
+  verifyAccountInputs,
+  verifyHeaderInputs,
+  verifyReceiptInputs,
+  verifyStorageInputs,
+  verifyTransactionInputs,
+} from '../src';
+
+const token = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const alice = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const blockNumber = '0x1312d00';
+
+type Receipts = Parameters<typeof buildReceiptProof>[0]['receipts'];
+
+// Raw JSON-RPC responses recorded from a synthetic chain, the builders never touch a client.
+const client = createPublicClient({
+  transport: fixtureTransport({
+    path: fileURLToPath(new URL('./fixtures/payloads.json', import.meta.url)),
+  }),
+});
+
+describe('Offline Builders', () => {
+  let block: RpcBlock;
+  let aliceProof: RpcProof;
+  let tokenProof: RpcProof;
+  let receipts: Receipts;
+
+  beforeAll(async () => {
+    block = (await client.request({
+      method: 'eth_getBlockByNumber',
+      params: [blockNumber, true],
+    })) as RpcBlock;
+    aliceProof = await client.request({
+      method: 'eth_getProof',
+      params: [alice, [], blockNumber],
+    });
+    tokenProof = await client.request({
+      method: 'eth_getProof',
+      params: [token, [pad('0x1')], blockNumber],
+    });
+    receipts = (await client.request({
+      method: 'eth_getBlockReceipts',
+      params: [blockNumber],
+    } as never)) as Receipts;
+  });
+
+  it('should build account and storage proofs from raw payloads', async () => {
+    const account = await buildAccountProof({
+      block,
+      proof: aliceProof,
+      verify: true,
+    });
+    expect(verifyAccountInputs(account).valid).toBe(true);
+
+    // Blocks formatted by viem build the same inputs.
+    expect(
+      await buildAccountProof({ block: formatBlock(block), proof: aliceProof })
+    ).toEqual(account);
+
+    const storage = await buildStorageProof({
+      proof: tokenProof,
+      slot: pad('0x1'),
+      verify: true,
+    });
+    expect(verifyStorageInputs(storage).valid).toBe(true);
+  });
+
+  it('should build header, transaction and receipt proofs from raw payloads', async () => {
+    expect(verifyHeaderInputs(buildBlockHeader({ block })).valid).toBe(true);
+
+    const transaction = await buildTransactionProof({
+      block,
+      transactionIndex: 1,
+      verify: true,
+    });
+    expect(verifyTransactionInputs(transaction).valid).toBe(true);
+
+    const receipt = await buildReceiptProof({
+      block,
+      receipts,
+      transactionIndex: 2,
+      maxEncodedReceiptLength: 512,
+      maxLeafLength: 512,
+      verify: true,
+    });
+    expect(verifyReceiptInputs(receipt).valid).toBe(true);
+
+    await expect(
+      buildTransactionProof({ block, transactionIndex: 3 })
+    ).rejects.toThrow('Transaction not found');
+    await expect(
+      buildStorageProof({ proof: tokenProof, slot: pad('0x2') })
+    ).rejects.toThrow('Storage Proof not found.');
+  });
+
+  it('should size account and storage proofs from the options', async () => {
+    const account = toInputMap(
+      await buildAccountProof({
+        block,
+        proof: aliceProof,
+        maxDepthNoLeaf: 10,
+        maxLeafLength: 200,
+        maxValueLength: 128,
+        verify: true,
+      })
+    );
+    expect(account.account_proof).toMatchObject({
+      value: expect.objectContaining({ length: 128 }),
+      proof: {
+        nodes: expect.objectContaining({ length: 10 }),
+        leaf: expect.objectContaining({ length: 200 }),
+      },
+    });
+
+    await expect(
+      buildAccountProof({ block, proof: aliceProof, maxDepthNoLeaf: 0 })
+    ).rejects.toThrow(
+      /^Account Proof depth \(\d+\) exceeds Max Depth provided \(0\)$/
+    );
+    await expect(
+      buildAccountProof({ block, proof: aliceProof, maxLeafLength: 16 })
+    ).rejects.toThrow(/exceeds max leaf length \(16\)$/);
+    await expect(
+      buildAccountProof({ block, proof: aliceProof, maxValueLength: 8 })
+    ).rejects.toThrow(
+      /^Account Proof value length \(\d+\) exceeds max value length \(8\)$/
+    );
+
+    const storage = toInputMap(
+      await buildStorageProof({
+        proof: tokenProof,
+        slot: pad('0x1'),
+        maxLeafLength: 96,
+        maxValueLength: 40,
+      })
+    );
+    expect(storage.storage_proof).toMatchObject({
+      value: expect.objectContaining({ length: 40 }),
+      proof: { leaf: expect.objectContaining({ length: 96 }) },
+    });
+
+    await expect(
+      buildStorageProof({
+        proof: tokenProof,
+        slot: pad('0x1'),
+        maxLeafLength: 4,
+      })
+    ).rejects.toThrow(
+      /^Storage Proof leaf node length \(\d+\) exceeds max leaf length \(4\)$/
+    );
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+
+import { mkdtempSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createPublicClient, custom, parseEther } from 'viem';
+import { mainnet } from 'viem/chains';
+import {
+  buildReceiptProof,
+  cacheTransport,
+  createFileCache,
+  createMemoryCache,
+  createSyntheticChain,
+  getBlockPin,
+  getCacheKey,
+} from '../src';
+
+const bob = '0x225f137127d9067788314bc7fcc1f36746a3c3B5';
+
+const block = {
+  number: '0x10',
+  hash: `0x${'11'.repeat(32)}`,
+};
+
+const createUpstream = ({ failChainId = false } = {}) => {
+  const calls: string[] = [];
+  const transport = custom({
+    async request({ method, params }) {
+      calls.push(`${method} ${JSON.stringify(params)}`);
+      if (method === 'eth_getBlockByNumber') {
+        if (params[0] === 'finalized') return { ...block, number: '0x18' };
+        return params[0] === '0x20' ? null : block;
+      }
+      if (method === 'eth_getBlockByHash') return block;
+      if (method === 'eth_chainId') {
+        if (failChainId) {
+          failChainId = false;
+          throw new Error('Connection refused');
+        }
+        return '0x1';
+      }
+      throw new Error(`Unexpected method ${method}`);
+    },
+  });
+  return { calls, transport };
+};
+
+describe('Cache', () => {
+  it('should evict the least recently used entry', async () => {
+    const cache = createMemoryCache({ maxEntries: 2 });
+
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    await cache.get('a');
+    await cache.set('c', 3);
+
+    expect(await cache.get('a')).toBe(1);
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toBe(3);
+  });
+
+  it('should keep file cache entries across instances', async () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+
+    await createFileCache({ directory }).set('key', { value: ['0x01'] });
+
+    const cache = createFileCache({ directory });
+    expect(await cache.get('key')).toEqual({ value: ['0x01'] });
+    expect(await cache.get('missing')).toBeUndefined();
+  });
+
+  it('should only key requests pinned to a block', () => {
+    expect(getCacheKey('eth_getBlockByNumber', ['0x10', true], 1)).toBe(
+      '1:eth_getBlockByNumber:["0x10",true]'
+    );
+    expect(getCacheKey('eth_getBlockByNumber', ['0x10', true], 10)).toBe(
+      '10:eth_getBlockByNumber:["0x10",true]'
+    );
+    expect(getCacheKey('eth_getBlockByNumber', ['0x10', true], undefined)).toBe(
+      undefined
+    );
+    expect(getCacheKey('eth_getBlockByNumber', ['latest', true], 1)).toBe(
+      undefined
+    );
+    expect(getCacheKey('eth_getProof', ['0x01', [], 'finalized'], 1)).toBe(
+      undefined
+    );
+    expect(
+      getCacheKey('eth_getProof', ['0x01', [], { blockHash: block.hash }], 1)
+    ).toBeDefined();
+    expect(getCacheKey('eth_chainId', [], 1)).toBe(undefined);
+
+    expect(getBlockPin('eth_getBlockByNumber', ['0x10', true])).toEqual({
+      blockNumber: 16n,
+    });
+    expect(getBlockPin('eth_getBlockReceipts', [block.hash])).toEqual({
+      blockHash: block.hash,
+    });
+  });
+
+  it('should serve pinned requests from the cache', async () => {
+    const upstream = createUpstream();
+    const client = createPublicClient({
+      chain: mainnet,
+      transport: cacheTransport({
+        transport: upstream.transport,
+        cache: createMemoryCache(),
+      }),
+    });
+
+    for (const id of ['0x10', '0x10', 'latest', 'latest', '0x20', '0x20']) {
+      await client.request({
+        method: 'eth_getBlockByNumber',
+        params: [id as `0x${string}`, false],
+      });
+    }
+    for (let i = 0; i < 2; i++) {
+      await client.request({
+        method: 'eth_getBlockByHash',
+        params: [block.hash as `0x${string}`, false],
+      });
+    }
+
+    expect(upstream.calls).toEqual([
+      'eth_getBlockByNumber ["finalized",false]',
+      'eth_getBlockByNumber ["0x10",false]',
+      'eth_getBlockByNumber ["latest",false]',
+      'eth_getBlockByNumber ["latest",false]',
+      // Above the finalized block, it can still be reorged.
+      'eth_getBlockByNumber ["finalized",false]',
+      'eth_getBlockByNumber ["0x20",false]',
+      'eth_getBlockByNumber ["finalized",false]',
+      'eth_getBlockByNumber ["0x20",false]',
+      `eth_getBlockByHash ["${block.hash}",false]`,
+    ]);
+  });
+
+  it('should key entries by the chain id the endpoint reports', async () => {
+    const upstream = createUpstream();
+    const client = createPublicClient({
+      transport: cacheTransport({
+        transport: upstream.transport,
+        cache: createMemoryCache(),
+      }),
+    });
+
+    for (let i = 0; i < 2; i++) {
+      await client.request({
+        method: 'eth_getBlockByNumber',
+        params: ['0x10', false],
+      });
+    }
+
+    expect(upstream.calls).toEqual([
+      'eth_chainId undefined',
+      'eth_getBlockByNumber ["finalized",false]',
+      'eth_getBlockByNumber ["0x10",false]',
+    ]);
+  });
+
+  it('should ask for the chain id again after a failed request', async () => {
+    const upstream = createUpstream({ failChainId: true });
+    const client = createPublicClient({
+      transport: cacheTransport({
+        transport: upstream.transport,
+        cache: createMemoryCache(),
+      }),
+    });
+    const request = () =>
+      client.request({
+        method: 'eth_getBlockByHash',
+        params: [block.hash as `0x${string}`, false],
+      });
+
+    // The client retries the failed request, a memoized rejection would fail every retry.
+    await request();
+    await request();
+
+    expect(upstream.calls).toEqual([
+      'eth_chainId undefined',
+      'eth_chainId undefined',
+      `eth_getBlockByHash ["${block.hash}",false]`,
+    ]);
+  });
+
+  it('should not rebuild a trie whose proof is cached', async () => {
+    const { block, receipts } = await createSyntheticChain({
+      transactions: [
+        { type: 'eip1559', to: bob, value: parseEther('1') },
+        { type: 'eip1559', to: bob, nonce: 1 },
+      ],
+    });
+    const cache = createMemoryCache();
+    const opts = {
+      block,
+      cache,
+      maxEncodedReceiptLength: 512,
+      maxLeafLength: 512,
+    };
+
+    await buildReceiptProof({ ...opts, receipts, transactionIndex: 0 });
+
+    // A tampered receipt would fail the receipts root check if the trie was rebuilt.
+    const tampered = structuredClone(receipts);
+    tampered[1] = { ...receipts[1], cumulativeGasUsed: '0x1' } as never;
+
+    const inputs = await buildReceiptProof({
+      ...opts,
+      receipts: tampered,
+      transactionIndex: 0,
+      verify: true,
+    });
+    expect(inputs.receipt_proof).toBeDefined();
+
+    await expect(
+      buildReceiptProof({ ...opts, receipts: tampered, transactionIndex: 1 })
+    ).rejects.toThrow('Receipts trie root does not match block receipts root');
+
+    // The cached proof does not prove a tampered requested receipt, the trie is rebuilt.
+    tampered[0] = { ...receipts[0], cumulativeGasUsed: '0x1' } as never;
+    await expect(
+      buildReceiptProof({ ...opts, receipts: tampered, transactionIndex: 0 })
+    ).rejects.toThrow('Receipts trie root does not match block receipts root');
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type Hex,
+  encodeAbiParameters,
+  keccak256,
+  pad,
+  parseEther,
+} from 'viem';
+import {
+  type CircuitInputShape,
+  combineReceiptProofs,
+  combineTransactionProofs,
+  createSyntheticChain,
+  findInputMismatches,
+  getAccountCodeProof,
+  getAccountExclusionProof,
+  getAccountProof,
+  getBlockHeader,
+  getBlockHeaderChain,
+  getReceiptProof,
+  getReceiptProofs,
+  getStorageExclusionProof,
+  getStorageProof,
+  getStorageProofs,
+  getTransactionProof,
+  getTransactionProofs,
+  getWithdrawalProof,
+  toInputMap,
+} from '../src';
+import {
+  verifyAccountCodeInputShape,
+  verifyAccountExclusionInputShape,
+  verifyAccountInputShape,
+  verifyAccountStorageInputShape,
+  verifyHeaderChainInputShape,
+  verifyHeaderInputShape,
+  verifyReceiptInputShape,
+  verifyReceiptLogInputShape,
+  verifyReceiptsInputShape,
+  verifyStorageExclusionInputShape,
+  verifyStorageInputShape,
+  verifyTransactionFieldsInputShape,
+  verifyTransactionInputShape,
+  verifyTransactionSenderInputShape,
+  verifyTransactionsInputShape,
+  verifyWithdrawalInputShape,
+} from './__generated__/inputs';
+
+const token = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const alice = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const bob = '0x225f137127d9067788314bc7fcc1f36746a3c3B5';
+
+const createChain = () =>
+  createSyntheticChain({
+    accounts: [
+      { address: alice, balance: parseEther('3'), nonce: 7n },
+      {
+        address: token,
+        code: '0x60003560e01c8063a9059cbb14',
+        storage: { [pad('0x1')]: pad('0x2a'), [pad('0x2')]: pad('0x2b') },
+      },
+    ],
+    transactions: [
+      { type: 'eip1559', to: bob, value: 1n, maxFeePerGas: 2_000_000_000n },
+      {
+        type: 'eip1559',
+        to: token,
+        nonce: 1,
+        maxFeePerGas: 2_000_000_000n,
+        gas: 60_000n,
+        data: '0xa9059cbb',
+        logs: [
+          {
+            address: token,
+            topics: [keccak256('0x01'), pad(alice)],
+            data: encodeAbiParameters([{ type: 'uint256' }], [5n]),
+          },
+        ],
+      },
+    ],
+    withdrawals: [
+      { validatorIndex: 1_000_000n, address: alice, amount: 18_000_000n },
+    ],
+  });
+
+// Builds every circuit's inputs with the builder defaults, which must match the example circuits.
+const buildInputs = async (): Promise<
+  [string, CircuitInputShape, object][]
+> => {
+  const { publicClient, block, transactionHashes } = await createChain();
+  const [first, second] = transactionHashes as Hex[];
+
+  return [
+    [
+      'verify_account',
+      verifyAccountInputShape,
+      await getAccountProof(publicClient, { address: alice }),
+    ],
+    [
+      'verify_account_code',
+      verifyAccountCodeInputShape,
+      await getAccountCodeProof(publicClient, {
+        address: token,
+        range: { offset: 0, length: 4 },
+        selector: '0xa9059cbb',
+      }),
+    ],
+    [
+      'verify_account_exclusion',
+      verifyAccountExclusionInputShape,
+      await getAccountExclusionProof(publicClient, { address: bob }),
+    ],
+    [
+      'verify_account_storage',
+      verifyAccountStorageInputShape,
+      await getStorageProofs(publicClient, {
+        address: token,
+        slots: [pad('0x1'), pad('0x2')],
+      }),
+    ],
+    [
+      'verify_storage',
+      verifyStorageInputShape,
+      await getStorageProof(publicClient, { address: token, slot: pad('0x1') }),
+    ],
+    [
+      'verify_storage_exclusion',
+      verifyStorageExclusionInputShape,
+      await getStorageExclusionProof(publicClient, {
+        address: token,
+        slot: pad('0x3'),
+      }),
+    ],
+    [
+      'verify_header',
+      verifyHeaderInputShape,
+      await getBlockHeader(publicClient, {}),
+    ],
+    [
+      'verify_header_chain',
+      verifyHeaderChainInputShape,
+      await getBlockHeaderChain(publicClient, {
+        fromBlock: BigInt(block.number as Hex),
+      }),
+    ],
+    [
+      'verify_transaction',
+      verifyTransactionInputShape,
+      await getTransactionProof(publicClient, { hash: first as Hex }),
+    ],
+    [
+      'verify_transaction_fields',
+      verifyTransactionFieldsInputShape,
+      await getTransactionProof(publicClient, {
+        hash: first as Hex,
+        fields: true,
+      }),
+    ],
+    [
+      'verify_transaction_sender',
+      verifyTransactionSenderInputShape,
+      await getTransactionProof(publicClient, {
+        hash: first as Hex,
+        sender: true,
+      }),
+    ],
+    [
+      'verify_transactions',
+      verifyTransactionsInputShape,
+      combineTransactionProofs(
+        await getTransactionProofs(publicClient, {
+          hashes: [first as Hex, second as Hex],
+        })
+      ),
+    ],
+    [
+      'verify_receipt',
+      verifyReceiptInputShape,
+      await getReceiptProof(publicClient, { hash: first as Hex }),
+    ],
+    [
+      'verify_receipt_log',
+      verifyReceiptLogInputShape,
+      await getReceiptProof(publicClient, {
+        hash: second as Hex,
+        log: { index: 0 },
+      }),
+    ],
+    [
+      'verify_receipts',
+      verifyReceiptsInputShape,
+      combineReceiptProofs(
+        await getReceiptProofs(publicClient, {
+          hashes: [first as Hex, second as Hex],
+        })
+      ),
+    ],
+    [
+      'verify_withdrawal',
+      verifyWithdrawalInputShape,
+      await getWithdrawalProof(publicClient, { withdrawalIndex: 0 }),
+    ],
+  ];
+};
+
+describe('Circuit Input Shapes', () => {
+  it('should build inputs with the lengths of the example circuits', async () => {
+    for (const [name, shape, inputs] of await buildInputs()) {
+      expect([name, findInputMismatches(shape, toInputMap(inputs))]).toEqual([
+        name,
+        [],
+      ]);
+    }
+  });
+
+  it('should report wrong lengths and capacities', () => {
+    const shape = {
+      key: ['array', 2, 'u8'],
+      value: { storage: ['array', 3, 'u8'], len: 'u32' },
+    } as const;
+
+    expect(
+      findInputMismatches(shape, {
+        key: ['0x1', '0x2'],
+        value: { storage: ['0x1', '0x2', '0x0'], len: '0x2' },
+      })
+    ).toEqual([]);
+    expect(
+      findInputMismatches(shape, {
+        key: ['0x1'],
+        value: { storage: ['0x1', '0x2', '0x0', '0x0'], len: '0x2' },
+        depth: '0x1',
+      })
+    ).toEqual([
+      'depth: Not a circuit input',
+      'key: Expected 2 items, got 1',
+      'value.storage: Expected 3 items, got 4',
+    ]);
+  });
+});
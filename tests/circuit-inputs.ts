@@ -0,0 +1,126 @@
+// Type-only checks of every builder against its example circuit, part of `pnpm typecheck`.
+// Run `pnpm codegen` after changing a circuit, `circuit-inputs.test.ts` compares the lengths.
+import type {
+  MatchesCircuitInputs,
+  combineReceiptProofs,
+  combineTransactionProofs,
+  getAccountCodeProof,
+  getAccountExclusionProof,
+  getAccountProof,
+  getBlockHeader,
+  getBlockHeaderChain,
+  getReceiptProof,
+  getStorageExclusionProof,
+  getStorageProof,
+  getStorageProofs,
+  getTransactionProof,
+  getWithdrawalProof,
+} from '../src';
+import type {
+  VerifyAccountCodeInputs,
+  VerifyAccountExclusionInputs,
+  VerifyAccountInputs,
+  VerifyAccountStorageInputs,
+  VerifyHeaderChainInputs,
+  VerifyHeaderInputs,
+  VerifyReceiptInputs,
+  VerifyReceiptLogInputs,
+  VerifyReceiptsInputs,
+  VerifyStorageExclusionInputs,
+  VerifyStorageInputs,
+  VerifyTransactionFieldsInputs,
+  VerifyTransactionInputs,
+  VerifyTransactionSenderInputs,
+  VerifyTransactionsInputs,
+  VerifyWithdrawalInputs,
+} from './__generated__/inputs';
+
+type Assert<T extends true> = T;
+
+type Built<T extends (...args: never[]) => Promise<unknown>> = Awaited<
+  ReturnType<T>
+>;
+
+export type CircuitInputChecks = [
+  Assert<
+    MatchesCircuitInputs<VerifyAccountInputs, Built<typeof getAccountProof>>
+  >,
+  Assert<
+    MatchesCircuitInputs<
+      VerifyAccountExclusionInputs,
+      Built<typeof getAccountExclusionProof>
+    >
+  >,
+  Assert<
+    MatchesCircuitInputs<
+      VerifyAccountCodeInputs,
+      Built<typeof getAccountCodeProof>
+    >
+  >,
+  Assert<
+    MatchesCircuitInputs<VerifyStorageInputs, Built<typeof getStorageProof>>
+  >,
+  Assert<
+    MatchesCircuitInputs<
+      VerifyStorageExclusionInputs,
+      Built<typeof getStorageExclusionProof>
+    >
+  >,
+  Assert<
+    MatchesCircuitInputs<
+      VerifyAccountStorageInputs,
+      Built<typeof getStorageProofs>
+    >
+  >,
+  Assert<
+    MatchesCircuitInputs<VerifyHeaderInputs, Built<typeof getBlockHeader>>
+  >,
+  Assert<
+    MatchesCircuitInputs<
+      VerifyHeaderChainInputs,
+      Built<typeof getBlockHeaderChain>
+    >
+  >,
+  Assert<
+    MatchesCircuitInputs<
+      VerifyTransactionInputs,
+      Built<typeof getTransactionProof>
+    >
+  >,
+  Assert<
+    MatchesCircuitInputs<
+      VerifyTransactionFieldsInputs,
+      Built<typeof getTransactionProof>
+    >
+  >,
+  Assert<
+    MatchesCircuitInputs<
+      VerifyTransactionSenderInputs,
+      Built<typeof getTransactionProof>
+    >
+  >,
+  Assert<
+    MatchesCircuitInputs<
+      VerifyTransactionsInputs,
+      ReturnType<typeof combineTransactionProofs>
+    >
+  >,
+  Assert<
+    MatchesCircuitInputs<VerifyReceiptInputs, Built<typeof getReceiptProof>>
+  >,
+  Assert<
+    MatchesCircuitInputs<VerifyReceiptLogInputs, Built<typeof getReceiptProof>>
+  >,
+  Assert<
+    MatchesCircuitInputs<
+      VerifyReceiptsInputs,
+      ReturnType<typeof combineReceiptProofs>
+    >
+  >,
+  Assert<
+    MatchesCircuitInputs<
+      VerifyWithdrawalInputs,
+      Built<typeof getWithdrawalProof>
+    >
+  >,
+];
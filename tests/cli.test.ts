@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { mkdtempSync, readFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createPublicClient, custom } from 'viem';
+import {
+  createSyntheticChain,
+  fixtureTransport,
+  getAccountProof,
+  getBlockHeader,
+  parseProverToml,
+  verifyAccountInputs,
+  verifyHeaderInputs,
+} from '../src';
+import { main, runCli } from '../src/cli';
+
+const alice = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const bob = '0x225f137127d9067788314bc7fcc1f36746a3c3B5';
+
+// Records the calls of one account proof against a synthetic chain.
+const recordFixture = async () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+  const fixture = path.join(dir, 'rpc.json');
+  const { publicClient } = await createSyntheticChain({
+    accounts: [
+      { address: alice, balance: 10n },
+      { address: bob, balance: 20n },
+    ],
+  });
+
+  await getAccountProof(
+    createPublicClient({
+      transport: fixtureTransport({
+        path: fixture,
+        mode: 'record',
+        transport: custom(publicClient),
+      }),
+    }),
+    { address: alice }
+  );
+
+  return { dir, fixture };
+};
+
+// Records the calls of one block header on a synthetic Sepolia chain after
+// Prague, whose block number is before London on mainnet.
+const recordSepoliaFixture = async () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+  const fixture = path.join(dir, 'rpc.json');
+  const { publicClient } = await createSyntheticChain({
+    chainId: 11_155_111,
+    blockNumber: 8_000_000n,
+    timestamp: 1_750_000_000n,
+  });
+
+  await getBlockHeader(
+    createPublicClient({
+      transport: fixtureTransport({
+        path: fixture,
+        mode: 'record',
+        transport: custom(publicClient),
+      }),
+    }),
+    {}
+  );
+
+  return fixture;
+};
+
+describe('CLI', () => {
+  afterEach(() => {
+    process.exitCode = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it('should print account inputs from a fixture as JSON', async () => {
+    const { fixture } = await recordFixture();
+    const output = await runCli([
+      'account',
+      '--fixture',
+      fixture,
+      '--address',
+      alice,
+    ]);
+
+    expect(verifyAccountInputs(JSON.parse(output)).valid).toBe(true);
+  });
+
+  it('should write a Prover.toml', async () => {
+    const { dir, fixture } = await recordFixture();
+    const output = path.join(dir, 'Prover.toml');
+
+    await runCli([
+      'account',
+      '--fixture',
+      fixture,
+      '--address',
+      alice,
+      '--format',
+      'toml',
+      '--output',
+      output,
+    ]);
+
+    const inputs = parseProverToml(readFileSync(output, 'utf8'));
+    expect(verifyAccountInputs(inputs).valid).toBe(true);
+  });
+
+  it('should exit non-zero with the error message', async () => {
+    const { fixture } = await recordFixture();
+    const stderr = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation(() => true);
+
+    await main(['account', '--fixture', fixture]);
+    expect(stderr).toHaveBeenCalledWith('--address is required\n');
+    expect(process.exitCode).toBe(1);
+
+    await main([
+      'account',
+      '--fixture',
+      fixture,
+      '--address',
+      alice,
+      '--max-depth',
+      '0',
+    ]);
+    expect(stderr).toHaveBeenLastCalledWith(
+      'Account Proof depth (1) exceeds Max Depth provided (0)\n'
+    );
+  });
+
+  it('should encode a header with the chain of the source', async () => {
+    const fixture = await recordSepoliaFixture();
+    const inputs = JSON.parse(await runCli(['header', '--fixture', fixture]));
+
+    expect(inputs.chain_id).toBe('0xaa36a7');
+    expect(verifyHeaderInputs(inputs).valid).toBe(true);
+    await expect(
+      runCli(['header', '--fixture', fixture, '--chain-id', '1'])
+    ).rejects.toThrow('the circuit expects 15 on chain 1');
+  });
+
+  it('should reject a cache with a fixture', async () => {
+    const { dir, fixture } = await recordFixture();
+
+    await expect(
+      runCli(['account', '--fixture', fixture, '--cache-dir', dir])
+    ).rejects.toThrow('--cache-dir cannot be used with --fixture');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+
+import type { CompiledCircuit } from '@noir-lang/noir_js';
+import type {
+  BoundedVec,
+  FixedSizeArray,
+  U8,
+  U64,
+} from '@zkpersona/noir-helpers';
+import {
+  type AbiValue,
+  type MatchesCircuitInputs,
+  generateInputTypes,
+} from '../src';
+
+const u8 = { kind: 'integer', sign: 'unsigned', width: 8 } as const;
+const u64 = { kind: 'integer', sign: 'unsigned', width: 64 } as const;
+
+const circuit: Pick<CompiledCircuit, 'abi'> = {
+  abi: {
+    parameters: [
+      { name: 'chain_id', type: u64, visibility: 'private' },
+      {
+        name: 'account',
+        type: {
+          kind: 'struct',
+          path: 'ethereum::account::Account',
+          fields: [
+            { name: 'nonce', type: u64 },
+            {
+              name: 'code_hash',
+              type: { kind: 'array', length: 32, type: u8 },
+            },
+          ],
+        },
+        visibility: 'private',
+      },
+      {
+        name: 'is_contract',
+        type: { kind: 'boolean' },
+        visibility: 'public',
+      },
+    ],
+    return_type: null,
+    error_types: {},
+  },
+};
+
+type Expected = {
+  account: { nonce: AbiValue<'u64'>; code_hash: AbiValue<'u8'>[] };
+  storage_proofs: {
+    key: AbiValue<'u8'>[];
+    value: { storage: AbiValue<'u8'>[]; len: AbiValue<'u32'> };
+  }[];
+};
+
+type Bytes = FixedSizeArray<U8>;
+type Vec = BoundedVec<U8>;
+
+describe('Circuit Input Types', () => {
+  it('should generate input types from the circuit abi', () => {
+    expect(generateInputTypes({ verify_account: circuit })).toBe(
+      `// Generated by \`noir-ethereum codegen\`, do not edit.
+
+type AbiValue<T extends string> = string & { readonly __abi?: T };
+
+export type VerifyAccountInputs = {
+  chain_id: AbiValue<'u64'>;
+  account: {
+    nonce: AbiValue<'u64'>;
+    code_hash: AbiValue<'u8'>[];
+  };
+  is_contract: boolean;
+};
+
+export const verifyAccountInputShape = {
+  chain_id: 'u64',
+  account: {
+    nonce: 'u64',
+    code_hash: ['array', 32, 'u8'],
+  },
+  is_contract: 'bool',
+} as const;
+`
+    );
+  });
+
+  it('should compare builder outputs with the circuit struct fields', () => {
+    expectTypeOf<
+      MatchesCircuitInputs<
+        Expected,
+        {
+          account: { nonce: U64; code_hash: Bytes };
+          storage_proofs: { key: Bytes; value: Vec }[];
+          log_index?: U64;
+        }
+      >
+    >().toEqualTypeOf<true>();
+
+    expectTypeOf<
+      MatchesCircuitInputs<
+        Expected,
+        {
+          account: { nonce: U64 };
+          storage_proofs: { key: Bytes; value: Vec }[];
+        }
+      >
+    >().toEqualTypeOf<false>();
+
+    expectTypeOf<
+      MatchesCircuitInputs<
+        Expected,
+        {
+          account: { nonce: U64; code_hash: Bytes };
+          storage_proofs: { key: Bytes; value: Vec; depth: U64 }[];
+        }
+      >
+    >().toEqualTypeOf<false>();
+
+    expectTypeOf<
+      MatchesCircuitInputs<
+        Expected,
+        {
+          account: { nonce: Bytes; code_hash: Bytes };
+          storage_proofs: { key: Bytes; value: Vec }[];
+        }
+      >
+    >().toEqualTypeOf<false>();
+
+    expectTypeOf<
+      MatchesCircuitInputs<
+        Expected,
+        {
+          account: { nonce: U64; code_hash: U64 };
+          storage_proofs: { key: Bytes; value: Bytes }[];
+        }
+      >
+    >().toEqualTypeOf<false>();
+  });
+});
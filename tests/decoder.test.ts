@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+
+import type { CompiledCircuit } from '@noir-lang/noir_js';
+import {
+  Bool,
+  BoundedVec,
+  Field,
+  FixedSizeArray,
+  U8,
+  U64,
+} from '@zkpersona/noir-helpers';
+import { numberToHex, toHex } from 'viem';
+import { decodePublicInputs, getPublicInputsCount, toInputMap } from '../src';
+
+const u8 = { kind: 'integer', sign: 'unsigned', width: 8 } as const;
+const u64 = { kind: 'integer', sign: 'unsigned', width: 64 } as const;
+const hash = { kind: 'array', length: 32, type: u8 } as const;
+const address = { kind: 'array', length: 20, type: u8 } as const;
+
+const circuit: Pick<CompiledCircuit, 'abi'> = {
+  abi: {
+    parameters: [
+      { name: 'state_root', type: hash, visibility: 'public' },
+      { name: 'account_proof', type: { kind: 'field' }, visibility: 'private' },
+      { name: 'block_number', type: u64, visibility: 'public' },
+      {
+        name: 'owner',
+        type: {
+          kind: 'struct',
+          path: 'std::option::Option',
+          fields: [
+            { name: '_is_some', type: { kind: 'boolean' } },
+            { name: '_value', type: address },
+          ],
+        },
+        visibility: 'public',
+      },
+      {
+        name: 'topics',
+        type: {
+          kind: 'struct',
+          path: 'std::collections::bounded_vec::BoundedVec',
+          fields: [
+            { name: 'storage', type: { kind: 'array', length: 3, type: u64 } },
+            {
+              name: 'len',
+              type: { kind: 'integer', sign: 'unsigned', width: 32 },
+            },
+          ],
+        },
+        visibility: 'public',
+      },
+      {
+        name: 'delta',
+        type: { kind: 'integer', sign: 'signed', width: 8 },
+        visibility: 'public',
+      },
+    ],
+    return_type: {
+      abi_type: {
+        kind: 'tuple',
+        fields: [{ kind: 'field' }, { kind: 'boolean' }],
+      },
+      visibility: 'public',
+    },
+    error_types: {},
+  },
+};
+
+const toFields = (values: (number | bigint)[]) =>
+  values.map((value) => numberToHex(value, { size: 32 }));
+
+describe('Public Inputs Decoding', () => {
+  it('should decode public inputs into builder values', () => {
+    const stateRoot = Array.from({ length: 32 }, (_, i) => i);
+    const owner = Array.from({ length: 20 }, () => 0xab);
+    const publicInputs = toFields([
+      ...stateRoot,
+      20_000_000,
+      1,
+      ...owner,
+      7,
+      9,
+      0,
+      2,
+      0xff,
+      42,
+      1,
+    ]);
+
+    expect(getPublicInputsCount(circuit.abi)).toBe(publicInputs.length);
+    const decoded = decodePublicInputs(circuit, publicInputs);
+    expect(decoded).toStrictEqual({
+      parameters: {
+        state_root: new FixedSizeArray(
+          32,
+          stateRoot.map((x) => new U8(BigInt(x)))
+        ),
+        block_number: new U64(20_000_000n),
+        owner: {
+          _is_some: new Bool(true),
+          _value: new FixedSizeArray(
+            20,
+            owner.map((x) => new U8(BigInt(x)))
+          ),
+        },
+        topics: new BoundedVec(3, new U64(0n), [new U64(7n), new U64(9n)]),
+        delta: -1n,
+      },
+      returnValue: [new Field(42n), new Bool(true)],
+    });
+    expect(toInputMap(decoded.parameters).topics).toEqual({
+      storage: [toHex(7), toHex(9), toHex(0)],
+      len: toHex(2),
+    });
+  });
+
+  it('should decode empty options as option structs', () => {
+    const publicInputs = toFields([
+      ...Array(32).fill(0),
+      1,
+      0,
+      ...Array(20).fill(0),
+      0,
+      0,
+      0,
+      0,
+      0,
+      0,
+      0,
+    ]);
+
+    const { parameters } = decodePublicInputs(circuit, publicInputs);
+    expect(parameters.owner).toStrictEqual({
+      _is_some: new Bool(false),
+      _value: new FixedSizeArray(
+        20,
+        Array.from({ length: 20 }, () => new U8(0n))
+      ),
+    });
+    expect(parameters.topics).toStrictEqual(new BoundedVec(3, new U64(0n), []));
+  });
+
+  it('should reject public inputs not matching the abi', () => {
+    expect(() => decodePublicInputs(circuit, toFields([1, 2]))).toThrow(
+      'Expected 61 public inputs, got 2'
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  type Hex,
+  encodeAbiParameters,
+  encodeEventTopics,
+  erc20Abi,
+} from 'viem';
+import {
+  createSyntheticChain,
+  findEventLog,
+  getEventProof,
+  verifyReceiptInputs,
+} from '../src';
+
+const token = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const alice = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const bob = '0x225f137127d9067788314bc7fcc1f36746a3c3B5';
+
+const transferLog = (from: Hex, to: Hex, value: bigint) => ({
+  address: token as Hex,
+  topics: encodeEventTopics({
+    abi: erc20Abi,
+    eventName: 'Transfer',
+    args: { from, to },
+  }) as [Hex, ...Hex[]],
+  data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+  blockHash: null,
+  blockNumber: null,
+  logIndex: null,
+  transactionHash: null,
+  transactionIndex: null,
+  removed: false,
+});
+
+const approvalLog = {
+  ...transferLog(alice, bob, 1n),
+  topics: encodeEventTopics({
+    abi: erc20Abi,
+    eventName: 'Approval',
+    args: { owner: alice, spender: bob },
+  }) as [Hex, ...Hex[]],
+};
+
+describe('Event Log Selection', () => {
+  const logs = [
+    approvalLog,
+    transferLog(alice, bob, 5n),
+    transferLog(bob, alice, 7n),
+  ];
+
+  it('should pick the first log matching the event', () => {
+    const event = findEventLog(logs, { abi: erc20Abi, eventName: 'Transfer' });
+
+    expect(event.index).toBe(1);
+    expect(event.eventName).toBe('Transfer');
+    expect(event.args).toEqual({ from: alice, to: bob, value: 5n });
+  });
+
+  it('should filter logs by indexed arguments', () => {
+    const event = findEventLog(logs, {
+      abi: erc20Abi,
+      eventName: 'Transfer',
+      filter: { from: bob },
+    });
+
+    expect(event.index).toBe(2);
+    expect(event.args.value).toBe(7n);
+  });
+
+  it('should throw when no log matches', () => {
+    expect(() =>
+      findEventLog(logs, {
+        abi: erc20Abi,
+        eventName: 'Transfer',
+        filter: { to: token },
+      })
+    ).toThrow('No Transfer event in receipt matches the filter');
+  });
+
+  it('should only match logs emitted by the given address', () => {
+    const forged = { ...transferLog(alice, bob, 9n), address: bob as Hex };
+    const event = findEventLog([forged, ...logs], {
+      abi: erc20Abi,
+      eventName: 'Transfer',
+      address: token,
+    });
+
+    expect(event.index).toBe(2);
+    expect(event.args.value).toBe(5n);
+  });
+
+  it('should prove the selected event from the block receipts', async () => {
+    const { publicClient, transactionHashes } = await createSyntheticChain({
+      transactions: [
+        {
+          type: 'eip1559',
+          to: token,
+          gas: 90_000n,
+          logs: [
+            { ...transferLog(alice, bob, 9n), address: bob as Hex },
+            transferLog(alice, bob, 5n),
+          ].map(({ address, topics, data }) => ({ address, topics, data })),
+        },
+      ],
+    });
+
+    const { inputs, event } = await getEventProof(publicClient, {
+      hash: transactionHashes[0] as Hex,
+      abi: erc20Abi,
+      eventName: 'Transfer',
+      address: token,
+      maxEncodedReceiptLength: 1024,
+      maxLeafLength: 1024,
+      verify: true,
+    });
+
+    expect(event.index).toBe(1);
+    expect(event.args.value).toBe(5n);
+    expect(verifyReceiptInputs(inputs).valid).toBe(true);
+  });
+});
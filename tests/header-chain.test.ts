@@ -0,0 +1,40 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import circuit from '../target/verify_header_chain.json' assert {
+  type: 'json',
+};
+
+import type { CompiledCircuit } from '@noir-lang/noir_js';
+import { type PublicClient, createPublicClient } from 'viem';
+import { mainnet } from 'viem/chains';
+import { proveHeaderChain, verifyHeaderChain } from '../src';
+import { getFixtureTransport } from './helpers';
+
+describe('Header Chain Verification', () => {
+  let publicClient: PublicClient;
+
+  beforeAll(() => {
+    publicClient = createPublicClient({
+      chain: mainnet,
+      transport: getFixtureTransport('header-chain'),
+    });
+  });
+
+  it('should verify a chain of block headers.', async () => {
+    const toBlock = await publicClient.getBlockNumber();
+    const result = await proveHeaderChain(publicClient, {
+      fromBlock: toBlock - 3n,
+      toBlock,
+      circuit: circuit as CompiledCircuit,
+    });
+    console.log('prove-header-chain', result.timing);
+
+    console.time('verify-header-chain');
+    const isVerified = await verifyHeaderChain(result, {
+      circuit: circuit as CompiledCircuit,
+    });
+    console.timeEnd('verify-header-chain');
+
+    expect(isVerified).toBe(true);
+  });
+});
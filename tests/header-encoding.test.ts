@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+
+import { type Hex, fromRlp, hexToBigInt, keccak256, toHex, toRlp } from 'viem';
+import {
+  type HeaderBlock,
+  HEADER_FORK_SCHEDULES,
+  MAX_HEADER_SIZE,
+  buildBlockHeader,
+  encodeBlockHeader,
+  getHeaderFork,
+  toInputMap,
+  verifyHeaderInputs,
+} from '../src';
+
+// Mainnet block 12_964_000 (pre London) and 22_308_227 (Cancun).
+const PRE_LONDON_HEADER_RLP: Hex =
+  '0xf90213a096c8df6ca9f8ffbf052cb55a3f9c24bb1a5773bbb9674918c127df0d32416170a01dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d4934794ea674fdde714fd979de3edf0f56aa9716b898ec8a020dc58bc25c2382b0625fe8f95b9d769e92ca13256e649d2c5a76ea89b2eb4baa03259ac1bf20f0e2a02362361bae5489170d25255c18fb07dfe9282c86cecc568a0890c7614402624fd2300779bed2169dfccedffcc1f269558aecdea8fea613c02b901002fb50087e0e3bdafd04084ddc8b40f032cbe27899b21a448108d8cfad6dca6b6512977e4c5120280623d775cd31061096fd48d1b2b9a7d68175487f0533a783829c4345c903ca1ecefae3eef11cc50a48cbd0ec42e68d1a12a673649aec3efdf535a295706c27a60228f9080982acc7913229f5711323571ce483552fb5e3a111b3d9b260734209382d703713dad8c864ce65e09ef4893086975d7704ad40a60438f0803baca26e16acdf3b28f11b6c1fe26431aa1e288c0039a03649a3f0852d07c0d67ef99166df61809a08048c5632a5dfb0347da995d4b34a2ab65f6240cddf3290b1c71a5210b8e356b053fd3c8b4a0f0212702ccd02b5a0ced609733f6871ab5ba110866d683c5d0a083e4a88983e4708884610ba6fa9265746865726d696e652d75732d7765737431a0435be34100a9afb2228deaf5f0100afbc8a31a503d8e51fbb43a1c6e9aa193de88da25f0a6156add09';
+const CANCUN_HEADER_RLP: Hex =
+  '0xf9025ba0c78b0e9d7c6b3cac0dac5a928e461f7679db8f416ce3966075c5ae424b301a46a01dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d493479495222290dd7278aa3ddd389cc1e1d165cc4bafe5a084045343c0daf1a0ffb5c4dce80b99e6903cac68235c4efd4ce32ebccaef6815a0bf29a54adbbb671f03d878a1e1052cd7eb85ff98fb5141e72c8b700f5e386ccfa08b4b15768b2c5053f4ad511e238d4f9df045d5673d9e0cef34281a67e68cff98b90100a2a1c80a6012c9a03bb010e5898810ab59536f231c49400a24a9380e3314972304087520388b0784e630daf1806725882aa124549d122bfa23d03369772f78c7aa62929b84948a0afec26c9b254a68f885e110b112f22828213d3c54b07e860161110485067f88e4e08cddf8490bfdadf6aa0ef6545904a42117209fae5e6279a8a883d8000606f17d593be41164077352b0034dd50d19786c3428415af61db79b2a5e7c091c3ca1e77654c298028cca141a9ac5ea53318306504e140c048872ea14dd6a1c0e18ea013f38b30e0f48b5468428531f2008106146a062224030fb44722fe322b01501a0451e88e99c02463dafd011690b36c0601b86182cc9365b808401546583840225510083ca04b28468048aef8f6265617665726275696c642e6f7267a07f12cb015f30c8bfd11f43bab02c05a26e1066ea85458441769ddd544d96d4b88800000000000000008412ea03c0a0273d6f9ba6eef347bfd5dccfbed926c6e4636ed11359e814ea8d92d171eb9b128306000084023e0000a0e8f234ed3f3fd6f7a859dc92d57807705f0e888d3f919248bdff53f377d0e5e3';
+
+const toQuantity = (value: Hex) => (value === '0x' ? 0n : hexToBigInt(value));
+
+const blockFromHeaderRlp = (headerRlp: Hex) => {
+  const fields = fromRlp(headerRlp) as Hex[];
+  return {
+    hash: keccak256(headerRlp),
+    parentHash: fields[0],
+    sha3Uncles: fields[1],
+    miner: fields[2],
+    stateRoot: fields[3],
+    transactionsRoot: fields[4],
+    receiptsRoot: fields[5],
+    logsBloom: fields[6],
+    difficulty: toQuantity(fields[7] as Hex),
+    number: toQuantity(fields[8] as Hex),
+    gasLimit: toQuantity(fields[9] as Hex),
+    gasUsed: toQuantity(fields[10] as Hex),
+    timestamp: toQuantity(fields[11] as Hex),
+    extraData: fields[12],
+    mixHash: fields[13],
+    nonce: fields[14],
+    baseFeePerGas: fields[15] ? toQuantity(fields[15]) : null,
+    withdrawalsRoot: fields[16],
+    blobGasUsed: fields[17] ? toQuantity(fields[17]) : undefined,
+    excessBlobGas: fields[18] ? toQuantity(fields[18]) : undefined,
+    parentBeaconBlockRoot: fields[19],
+    requestsHash: fields[20],
+  } as HeaderBlock;
+};
+
+const mainnet = HEADER_FORK_SCHEDULES[1] ?? {};
+
+describe('Block Header Encoding', () => {
+  it('should detect the fork of a block from the schedule', () => {
+    expect(
+      getHeaderFork(blockFromHeaderRlp(PRE_LONDON_HEADER_RLP), mainnet)
+    ).toBe('frontier');
+    expect(getHeaderFork(blockFromHeaderRlp(CANCUN_HEADER_RLP), mainnet)).toBe(
+      'cancun'
+    );
+    expect(
+      getHeaderFork({ number: 22_431_084n, timestamp: 1_746_612_311n }, mainnet)
+    ).toBe('prague');
+  });
+
+  it('should re-encode mainnet headers to their original RLP', () => {
+    for (const headerRlp of [PRE_LONDON_HEADER_RLP, CANCUN_HEADER_RLP]) {
+      const block = blockFromHeaderRlp(headerRlp);
+      const fork = getHeaderFork(block, mainnet);
+      expect(encodeBlockHeader(block, fork)).toBe(headerRlp);
+    }
+  });
+
+  it('should keep zero blob gas used in Cancun headers', () => {
+    const fields = fromRlp(CANCUN_HEADER_RLP) as Hex[];
+    fields[17] = '0x';
+    const headerRlp = toRlp(fields);
+
+    const block = blockFromHeaderRlp(headerRlp);
+    expect(block.blobGasUsed).toBe(0n);
+    expect(encodeBlockHeader(block, 'cancun')).toBe(headerRlp);
+  });
+
+  it('should append the requests hash in Prague headers', () => {
+    const fields = fromRlp(CANCUN_HEADER_RLP) as Hex[];
+    fields.push(keccak256('0x'));
+    const headerRlp = toRlp(fields);
+
+    const block = blockFromHeaderRlp(headerRlp);
+    expect(encodeBlockHeader(block, 'prague')).toBe(headerRlp);
+    expect(() =>
+      encodeBlockHeader({ ...block, requestsHash: undefined }, 'prague')
+    ).toThrow('Block header field requestsHash is required from prague');
+  });
+
+  it('should throw when the encoded header does not match the block hash', () => {
+    const block = blockFromHeaderRlp(CANCUN_HEADER_RLP);
+
+    expect(() => encodeBlockHeader(block, 'shanghai')).toThrow(
+      `Block 22308227 header hash mismatch for shanghai encoding: expected ${block.hash}`
+    );
+  });
+
+  it('should only build headers the circuit can verify', () => {
+    const fields = fromRlp(CANCUN_HEADER_RLP) as Hex[];
+    fields[8] = toHex(22_431_084);
+    const cancunBlock = blockFromHeaderRlp(toRlp(fields));
+    fields[11] = toHex(1_746_612_311);
+    fields.push(keccak256('0x'));
+    const pragueBlock = blockFromHeaderRlp(toRlp(fields));
+
+    const inputs = buildBlockHeader({ block: pragueBlock });
+    expect(verifyHeaderInputs(inputs).valid).toBe(true);
+    expect(toInputMap(inputs).block_header_rlp).toMatchObject({
+      storage: expect.objectContaining({ length: MAX_HEADER_SIZE }),
+    });
+
+    expect(() => buildBlockHeader({ block: cancunBlock })).toThrow(
+      'Block 22431084 header has 20 fields, the circuit expects 21 on chain 1'
+    );
+    // Sepolia was past Prague at these block numbers as well.
+    expect(
+      verifyHeaderInputs(
+        buildBlockHeader({ block: pragueBlock, chainId: 11155111 })
+      ).valid
+    ).toBe(true);
+    expect(() =>
+      buildBlockHeader({ block: pragueBlock, chainId: 17000 })
+    ).toThrow('No header fork schedule known for chain 17000');
+  });
+});
@@ -1,5 +1,13 @@
-import { encodeAbiParameters, keccak256 } from 'viem';
+import { existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { http } from 'viem';
 import { namehash, normalize } from 'viem/ens';
+import {
+  FIXTURE_METHODS,
+  type FixtureMode,
+  fixtureTransport,
+  getStorageSlot,
+} from '../src';
 
 export const getENSNameStorageSlot = (name: string) => {
   const normalized = normalize(name);
@@ -13,53 +21,28 @@ export const getENSNameStorageSlot = (name: string) => {
   const slot = 2n;
   const coinType = 60n; // ETH
 
-  const inner = keccak256(
-    encodeAbiParameters(
-      [
-        {
-          name: 'version',
-          type: 'uint64',
-        },
-        {
-          name: 'slot',
-          type: 'uint256',
-        },
-      ],
-      [version, slot]
-    )
-  );
-
-  const mid = keccak256(
-    encodeAbiParameters(
-      [
-        {
-          name: 'node',
-          type: 'bytes32',
-        },
-        {
-          name: 'inner',
-          type: 'bytes32',
-        },
-      ],
-      [node, inner]
-    )
-  );
+  return getStorageSlot(slot, [
+    { kind: 'mapping', keyType: 'uint64', key: version },
+    { kind: 'mapping', keyType: 'bytes32', key: node },
+    { kind: 'mapping', keyType: 'uint256', key: coinType },
+  ]).slot;
+};
 
-  const finalSlot = keccak256(
-    encodeAbiParameters(
-      [
-        {
-          name: 'coinType',
-          type: 'uint256',
-        },
-        {
-          name: 'mid',
-          type: 'bytes32',
-        },
-      ],
-      [coinType, mid]
-    )
+// Replays recorded mainnet responses from tests/fixtures, set RPC_FIXTURES to `record` or `auto` to refresh them.
+// A suite without a fixture file records one from mainnet on its first run.
+export const getFixtureTransport = (name: string) => {
+  const path = fileURLToPath(
+    new URL(`./fixtures/${name}.json`, import.meta.url)
   );
+  const mode =
+    (process.env.RPC_FIXTURES as FixtureMode | undefined) ??
+    (existsSync(path) ? 'replay' : 'auto');
 
-  return finalSlot;
+  return fixtureTransport({
+    path,
+    mode,
+    transport: mode === 'replay' ? undefined : http(),
+    // Pins the chain head so `latest` resolves to the recorded blocks.
+    methods: [...FIXTURE_METHODS, 'eth_blockNumber'],
+  });
 };
@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest';
+
+import { encodeAbiParameters, keccak256, numberToHex } from 'viem';
+import {
+  type StorageLayout,
+  buildStorageLayoutProof,
+  createSyntheticChain,
+  decodeStorageValue,
+  getStorageLayoutProof,
+  resolveStorageVariable,
+  verifyStorageExclusionInputs,
+  verifyStorageInputs,
+} from '../src';
+
+const slotHex = (slot: bigint) => numberToHex(slot, { size: 32 });
+
+// contract Vault {
+//   address owner;
+//   uint64 nonce;
+//   bool paused;
+//   mapping(address => uint256) balances;
+//   struct Position { address owner; uint96 size; int128 pnl; }
+//   Position[] positions;
+//   mapping(string => Position) named;
+//   string name;
+// }
+const layout: StorageLayout = {
+  storage: [
+    { label: 'owner', offset: 0, slot: '0', type: 't_address' },
+    { label: 'nonce', offset: 20, slot: '0', type: 't_uint64' },
+    { label: 'paused', offset: 28, slot: '0', type: 't_bool' },
+    {
+      label: 'balances',
+      offset: 0,
+      slot: '1',
+      type: 't_mapping(t_address,t_uint256)',
+    },
+    {
+      label: 'positions',
+      offset: 0,
+      slot: '2',
+      type: 't_array(t_struct(Position)_storage)dyn_storage',
+    },
+    {
+      label: 'named',
+      offset: 0,
+      slot: '3',
+      type: 't_mapping(t_string_memory_ptr,t_struct(Position)_storage)',
+    },
+    { label: 'name', offset: 0, slot: '4', type: 't_string_storage' },
+  ],
+  types: {
+    t_address: { encoding: 'inplace', label: 'address', numberOfBytes: '20' },
+    t_bool: { encoding: 'inplace', label: 'bool', numberOfBytes: '1' },
+    t_uint64: { encoding: 'inplace', label: 'uint64', numberOfBytes: '8' },
+    t_uint96: { encoding: 'inplace', label: 'uint96', numberOfBytes: '12' },
+    t_int128: { encoding: 'inplace', label: 'int128', numberOfBytes: '16' },
+    t_uint256: { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' },
+    t_string_memory_ptr: {
+      encoding: 'bytes',
+      label: 'string',
+      numberOfBytes: '32',
+    },
+    t_string_storage: {
+      encoding: 'bytes',
+      label: 'string',
+      numberOfBytes: '32',
+    },
+    't_mapping(t_address,t_uint256)': {
+      encoding: 'mapping',
+      key: 't_address',
+      label: 'mapping(address => uint256)',
+      numberOfBytes: '32',
+      value: 't_uint256',
+    },
+    't_mapping(t_string_memory_ptr,t_struct(Position)_storage)': {
+      encoding: 'mapping',
+      key: 't_string_memory_ptr',
+      label: 'mapping(string => struct Vault.Position)',
+      numberOfBytes: '32',
+      value: 't_struct(Position)_storage',
+    },
+    't_array(t_struct(Position)_storage)dyn_storage': {
+      base: 't_struct(Position)_storage',
+      encoding: 'dynamic_array',
+      label: 'struct Vault.Position[]',
+      numberOfBytes: '32',
+    },
+    't_struct(Position)_storage': {
+      encoding: 'inplace',
+      label: 'struct Vault.Position',
+      numberOfBytes: '64',
+      members: [
+        { label: 'owner', offset: 0, slot: '0', type: 't_address' },
+        { label: 'size', offset: 20, slot: '0', type: 't_uint96' },
+        { label: 'pnl', offset: 0, slot: '1', type: 't_int128' },
+      ],
+    },
+  },
+};
+
+describe('Storage Layout Resolution', () => {
+  it('should resolve packed top-level variables', () => {
+    const nonce = resolveStorageVariable(layout, 'nonce');
+    expect(nonce.slot).toBe(slotHex(0n));
+    expect(nonce.offset).toBe(20);
+    expect(nonce.size).toBe(8);
+
+    const value = (1n << 224n) | (42n << 160n) | 0xabcdn;
+    expect(decodeStorageValue(nonce, value)).toBe(42n);
+    expect(
+      decodeStorageValue(resolveStorageVariable(layout, 'paused'), value)
+    ).toBe(true);
+    expect(
+      decodeStorageValue(resolveStorageVariable(layout, 'owner'), value)
+    ).toBe('0x000000000000000000000000000000000000ABcD');
+  });
+
+  it('should resolve mapping entries', () => {
+    const address = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+    const expected = keccak256(
+      encodeAbiParameters(
+        [{ type: 'address' }, { type: 'uint256' }],
+        [address, 1n]
+      )
+    );
+    expect(resolveStorageVariable(layout, `balances[${address}]`).slot).toBe(
+      expected
+    );
+  });
+
+  it('should resolve struct members of dynamic array elements', () => {
+    const start = BigInt(keccak256(slotHex(2n)));
+
+    const owner = resolveStorageVariable(layout, 'positions[7].owner');
+    expect(owner.slot).toBe(slotHex(start + 14n));
+    expect(owner.offset).toBe(0);
+
+    const size = resolveStorageVariable(layout, 'positions[7].size');
+    expect(size.slot).toBe(slotHex(start + 14n));
+    expect(size.offset).toBe(20);
+
+    const pnl = resolveStorageVariable(layout, 'positions[7].pnl');
+    expect(pnl.slot).toBe(slotHex(start + 15n));
+    expect(decodeStorageValue(pnl, (1n << 128n) - 5n)).toBe(-5n);
+  });
+
+  it('should resolve string keyed mappings', () => {
+    const base = BigInt(
+      keccak256(`${numberToHex(0x616c696365n)}${slotHex(3n).slice(2)}`)
+    );
+    expect(resolveStorageVariable(layout, 'named["alice"].pnl').slot).toBe(
+      slotHex(base + 1n)
+    );
+  });
+
+  it('should decode short strings', () => {
+    const name = resolveStorageVariable(layout, 'name');
+    const value = (0x7661756c74n << 216n) | 10n;
+    expect(decodeStorageValue(name, value)).toBe('vault');
+  });
+
+  it('should reject unknown variables and members', () => {
+    expect(() => resolveStorageVariable(layout, 'missing')).toThrowError();
+    expect(() =>
+      resolveStorageVariable(layout, 'positions[0].missing')
+    ).toThrowError();
+  });
+
+  it('should prove variables from the storage trie', async () => {
+    const vault = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+    const packed = (1n << 224n) | (42n << 160n) | 0xabcdn;
+    const { publicClient } = await createSyntheticChain({
+      accounts: [
+        {
+          address: vault,
+          storage: { [slotHex(0n)]: numberToHex(packed, { size: 32 }) },
+        },
+      ],
+    });
+
+    const nonce = await getStorageLayoutProof(publicClient, {
+      address: vault,
+      layout,
+      variable: 'nonce',
+      verify: true,
+    });
+    expect(nonce).toMatchObject({ value: 42n, exclusion: false });
+    expect(verifyStorageInputs(nonce.inputs).valid).toBe(true);
+
+    // An unset variable is proven absent and reads as zero.
+    const name = await getStorageLayoutProof(publicClient, {
+      address: vault,
+      layout,
+      variable: 'name',
+      verify: true,
+    });
+    expect(name).toMatchObject({ value: '', exclusion: true });
+    expect(verifyStorageExclusionInputs(name.inputs).valid).toBe(true);
+
+    // The value reported by the RPC is ignored in favour of the proven one.
+    const proof = await publicClient.getProof({
+      address: vault,
+      storageKeys: [slotHex(0n)],
+    });
+    const tampered = {
+      ...proof,
+      storageProof: proof.storageProof.map((p) => ({ ...p, value: 7n })),
+    };
+    const owner = await buildStorageLayoutProof({
+      proof: tampered,
+      layout,
+      variable: 'owner',
+    });
+    expect(owner.value).toBe('0x000000000000000000000000000000000000ABcD');
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+
+import { Trie } from '@ethereumjs/trie';
+import { toRlp } from 'viem';
+import {
+  MAX_NODE_LENGTH,
+  type PaddedProofInput,
+  encodeIndex,
+  leftPad,
+  rightPad,
+  verifyExclusionProofInput,
+  verifyMerkleProof,
+  verifyProofInput,
+} from '../src';
+
+const MAX_DEPTH = 4;
+
+const buildTrie = async (valueLength = 40) => {
+  const trie = new Trie();
+  for (let i = 0; i < 40; i++) {
+    const value = `0x${'ab'.repeat(valueLength + i)}` as const;
+    await trie.put(encodeIndex(i), toRlp(value, 'bytes'));
+  }
+  return trie;
+};
+
+const padProof = async (
+  trie: Trie,
+  index: number
+): Promise<PaddedProofInput> => {
+  const key = encodeIndex(index);
+  const proof = await trie.createProof(key);
+  const value = (await trie.get(key)) ?? new Uint8Array(0);
+  const nodes = proof.slice(0, -1).map((n) => rightPad(n, MAX_NODE_LENGTH));
+
+  while (nodes.length !== MAX_DEPTH) {
+    nodes.push(new Array<number>(MAX_NODE_LENGTH).fill(0));
+  }
+
+  return {
+    key: leftPad(key, 8),
+    value: leftPad(value, 128),
+    nodes,
+    leaf: rightPad(proof.at(-1) ?? new Uint8Array(0), 128),
+    depth: proof.length,
+  };
+};
+
+describe('Merkle Proof Replay', () => {
+  it('should accept padded proofs for every key', async () => {
+    const trie = await buildTrie();
+    const root = Array.from(trie.root());
+
+    for (const index of [0, 1, 7, 39]) {
+      const report = verifyMerkleProof(await padProof(trie, index), root);
+      expect(report.valid).toBe(true);
+      expect(report.checks.every((c) => c.passed)).toBe(true);
+      expect(report.checks.at(-1)?.check).toBe('leaf_value');
+    }
+  });
+
+  it('should report a root mismatch on the first node', async () => {
+    const trie = await buildTrie();
+    const root = new Array<number>(32).fill(1);
+
+    const report = verifyMerkleProof(await padProof(trie, 3), root);
+    expect(report.valid).toBe(false);
+    expect(report.checks).toEqual([
+      {
+        check: 'node_hash',
+        passed: false,
+        node: 0,
+        message: 'Node hash does not match expected hash',
+      },
+    ]);
+  });
+
+  it('should report a value that does not match the leaf', async () => {
+    const trie = await buildTrie();
+    const input = await padProof(trie, 3);
+    input.value = leftPad(toRlp('0xabab', 'bytes'), 128);
+
+    const report = verifyMerkleProof(input, Array.from(trie.root()));
+    expect(report.valid).toBe(false);
+    expect(report.checks.at(-1)).toMatchObject({
+      check: 'leaf_value',
+      message: 'Value length mismatch',
+    });
+  });
+
+  it('should report a depth that skips nodes', async () => {
+    const trie = await buildTrie();
+    const input = await padProof(trie, 3);
+    input.depth -= 1;
+
+    const report = verifyMerkleProof(input, Array.from(trie.root()));
+    expect(report.valid).toBe(false);
+    expect(report.checks.at(-1)).toMatchObject({
+      check: 'leaf_hash',
+      passed: false,
+    });
+  });
+
+  it('should report nodes embedded in their parent', async () => {
+    // Nodes shorter than 32 bytes are inlined instead of hashed.
+    const trie = await buildTrie(1);
+
+    const report = verifyMerkleProof(
+      await padProof(trie, 3),
+      Array.from(trie.root())
+    );
+    expect(report.valid).toBe(false);
+    expect(report.checks.at(-1)).toMatchObject({
+      check: 'node_path',
+      message: 'Element is not a string of length < 56 bytes',
+    });
+  });
+
+  it('should report on proof inputs before encoding them', async () => {
+    const trie = await buildTrie();
+    const key = encodeIndex(7);
+    const opts = {
+      name: 'Test',
+      key,
+      value: (await trie.get(key)) ?? new Uint8Array(0),
+      proof: await trie.createProof(key),
+      root: trie.root(),
+      maxDepthNoLeaf: MAX_DEPTH,
+      maxLeafLength: 128,
+      maxKeyLength: 8,
+      maxValueLength: 128,
+    };
+
+    const report = verifyProofInput(opts);
+    expect(report.valid).toBe(true);
+    expect(report.checks.at(-1)?.check).toBe('leaf_value');
+
+    expect(
+      verifyProofInput({ ...opts, value: new Uint8Array([1]) }).valid
+    ).toBe(false);
+
+    const missing = encodeIndex(40);
+    expect(
+      verifyExclusionProofInput({
+        ...opts,
+        key: missing,
+        proof: await trie.createProof(missing),
+      }).valid
+    ).toBe(true);
+    expect(verifyExclusionProofInput(opts).valid).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import circuit from '../target/verify_receipt_log.json' assert { type: 'json' };
+
+import type { CompiledCircuit } from '@noir-lang/noir_js';
+import { type Hex, keccak256, pad, toBytes } from 'viem';
+import { createSyntheticChain, proveReceipt, verifyReceipt } from '../src';
+
+const token = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const bob = '0x225f137127d9067788314bc7fcc1f36746a3c3B5';
+
+describe('Receipt Log Verification', () => {
+  it('should prove a log selected by address and topics', async () => {
+    const transfer = keccak256(toBytes('Transfer(address,address,uint256)'));
+    const { publicClient, transactionHashes } = await createSyntheticChain({
+      transactions: [
+        {
+          type: 'eip1559',
+          to: token,
+          gas: 90_000n,
+          logs: [
+            { address: bob, topics: [transfer, pad(bob)], data: '0x' },
+            { address: token, topics: [transfer, pad(bob)], data: '0x01' },
+          ],
+        },
+      ],
+    });
+
+    const result = await proveReceipt(publicClient, {
+      hash: transactionHashes[0] as Hex,
+      log: { address: token, topics: [transfer] },
+      circuit: circuit as CompiledCircuit,
+    });
+    console.log('prove-receipt-log', result.timing);
+
+    console.time('verify-receipt-log');
+    const isVerified = await verifyReceipt(result, {
+      circuit: circuit as CompiledCircuit,
+    });
+    console.timeEnd('verify-receipt-log');
+
+    expect(isVerified).toBe(true);
+  });
+});
@@ -1,46 +1,37 @@
 import { beforeAll, describe, expect, it } from 'vitest';
 
-import { Prover, toCircuitInputs } from '@zkpersona/noir-helpers';
-
 import circuit from '../target/verify_receipt.json' assert { type: 'json' };
 
-import os from 'node:os';
 import type { CompiledCircuit } from '@noir-lang/noir_js';
-import { http, type PublicClient, createPublicClient } from 'viem';
+import { type PublicClient, createPublicClient } from 'viem';
 import { mainnet } from 'viem/chains';
-import { getReceiptProof } from '../src';
+import { proveReceipt, verifyReceipt } from '../src';
+import { getFixtureTransport } from './helpers';
 
 describe('Receipt Proof Verification', () => {
-  let prover: Prover;
   let publicClient: PublicClient;
 
   beforeAll(() => {
-    const threads = os.cpus().length;
-    prover = new Prover(circuit as CompiledCircuit, {
-      type: 'honk',
-      options: { threads },
-    });
     publicClient = createPublicClient({
       chain: mainnet,
-      transport: http(),
+      transport: getFixtureTransport('receipt'),
     });
   });
 
   it('should prove receipt proof', async () => {
-    const inputs = await getReceiptProof(publicClient, {
+    const result = await proveReceipt(publicClient, {
       hash: '0x9a3126c92d87ef66454695b2fb687659fab14a7fb4968a7bd6551036bd9f3ec1',
       maxDepthNoLeaf: 4,
       maxEncodedReceiptLength: 512,
       maxLeafLength: 512,
+      circuit: circuit as CompiledCircuit,
     });
-
-    const parsedInputs = toCircuitInputs(inputs);
-    console.time('prove-receipt');
-    const proof = await prover.fullProve(parsedInputs, { type: 'honk' });
-    console.timeEnd('prove-receipt');
+    console.log('prove-receipt', result.timing);
 
     console.time('verify-receipt');
-    const isVerified = await prover.verify(proof, { type: 'honk' });
+    const isVerified = await verifyReceipt(result, {
+      circuit: circuit as CompiledCircuit,
+    });
     console.timeEnd('verify-receipt');
 
     expect(isVerified).toBe(true);
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+
+import { encodeAbiParameters, keccak256, numberToHex, toHex } from 'viem';
+import { getStorageSlot, getUSDCBalanceStorageSlot } from '../src';
+
+const slotHex = (slot: bigint) => numberToHex(slot, { size: 32 });
+
+describe('Storage Slot Calculation', () => {
+  it('should return the base slot for an empty path', () => {
+    expect(getStorageSlot(3n)).toEqual({ slot: slotHex(3n), offset: 0 });
+  });
+
+  it('should derive mapping slots for value type keys', () => {
+    const address = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+    const expected = keccak256(
+      encodeAbiParameters(
+        [{ type: 'address' }, { type: 'uint256' }],
+        [address, 9n]
+      )
+    );
+
+    expect(
+      getStorageSlot(9n, [
+        { kind: 'mapping', keyType: 'address', key: address },
+      ]).slot
+    ).toBe(expected);
+    expect(getUSDCBalanceStorageSlot(address)).toBe(expected);
+  });
+
+  it('should hash string and bytes keys unpadded', () => {
+    const expected = keccak256(
+      `${toHex('vitalik')}${slotHex(1n).slice(2)}` as const
+    );
+
+    expect(
+      getStorageSlot(1n, [
+        { kind: 'mapping', keyType: 'string', key: 'vitalik' },
+      ]).slot
+    ).toBe(expected);
+    expect(
+      getStorageSlot(1n, [
+        { kind: 'mapping', keyType: 'bytes', key: toHex('vitalik') },
+      ]).slot
+    ).toBe(expected);
+  });
+
+  it('should derive nested mapping slots', () => {
+    const inner = keccak256(
+      encodeAbiParameters([{ type: 'uint64' }, { type: 'uint256' }], [0n, 2n])
+    );
+    const expected = keccak256(
+      encodeAbiParameters(
+        [{ type: 'uint256' }, { type: 'bytes32' }],
+        [60n, inner]
+      )
+    );
+
+    expect(
+      getStorageSlot(2n, [
+        { kind: 'mapping', keyType: 'uint64', key: 0n },
+        { kind: 'mapping', keyType: 'uint256', key: 60n },
+      ]).slot
+    ).toBe(expected);
+  });
+
+  it('should derive dynamic array element slots', () => {
+    const start = BigInt(keccak256(slotHex(0n)));
+
+    expect(getStorageSlot(0n, [{ kind: 'array', index: 5 }])).toEqual({
+      slot: slotHex(start + 5n),
+      offset: 0,
+    });
+    expect(
+      getStorageSlot(0n, [{ kind: 'array', index: 5, elementSize: 96 }])
+    ).toEqual({ slot: slotHex(start + 15n), offset: 0 });
+  });
+
+  it('should derive packed array element slots and offsets', () => {
+    const start = BigInt(keccak256(slotHex(4n)));
+
+    expect(
+      getStorageSlot(4n, [{ kind: 'array', index: 5, elementSize: 8 }])
+    ).toEqual({ slot: slotHex(start + 1n), offset: 8 });
+    expect(
+      getStorageSlot(4n, [{ kind: 'fixedArray', index: 3, elementSize: 16 }])
+    ).toEqual({ slot: slotHex(5n), offset: 16 });
+  });
+
+  it('should derive struct member slots and offsets', () => {
+    const base = BigInt(
+      keccak256(
+        encodeAbiParameters(
+          [{ type: 'uint256' }, { type: 'uint256' }],
+          [7n, 3n]
+        )
+      )
+    );
+
+    expect(
+      getStorageSlot(3n, [
+        { kind: 'mapping', keyType: 'uint256', key: 7n },
+        { kind: 'member', slot: 2, offset: 20 },
+      ])
+    ).toEqual({ slot: slotHex(base + 2n), offset: 20 });
+  });
+
+  it('should reject path items after a packed value', () => {
+    expect(() =>
+      getStorageSlot(0n, [
+        { kind: 'member', slot: 0, offset: 20 },
+        { kind: 'array', index: 0 },
+      ])
+    ).toThrowError();
+  });
+});
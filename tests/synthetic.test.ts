@@ -0,0 +1,596 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type Hex,
+  encodeAbiParameters,
+  keccak256,
+  pad,
+  parseEther,
+  toBytes,
+  toHex,
+} from 'viem';
+import {
+  type ReceiptLogFilter,
+  buildAccountCodeProof,
+  buildStorageExclusionProof,
+  buildStorageProofs,
+  combineReceiptProofs,
+  combineTransactionProofs,
+  createSyntheticChain,
+  getAccountCodeProof,
+  getAccountExclusionProof,
+  getAccountProof,
+  getBlockHeader,
+  getBlockHeaderChain,
+  getReceiptProof,
+  getReceiptProofs,
+  getStorageExclusionProof,
+  getStorageProof,
+  getStorageProofs,
+  getTransactionProof,
+  getTransactionProofs,
+  getWithdrawalProof,
+  verifyAccountCodeInputs,
+  verifyAccountExclusionInputs,
+  verifyAccountInputs,
+  verifyHeaderInputs,
+  verifyReceiptInputs,
+  verifyReceiptProofsInputs,
+  verifyStorageExclusionInputs,
+  verifyStorageInputs,
+  verifyStorageProofsInputs,
+  verifyTransactionInputs,
+  verifyTransactionProofsInputs,
+  verifyWithdrawalInputs,
+  toInputMap,
+} from '../src';
+
+const token = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const alice = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const bob = '0x225f137127d9067788314bc7fcc1f36746a3c3B5';
+
+const createChain = () =>
+  createSyntheticChain({
+    accounts: [
+      { address: alice, balance: parseEther('3'), nonce: 7n },
+      {
+        address: token,
+        code: '0x6080604052',
+        storage: {
+          [pad('0x1')]: pad('0x2a'),
+          [pad('0x2')]: pad('0x0'),
+        },
+      },
+    ],
+    transactions: [
+      { type: 'eip1559', to: bob, value: 1n, maxFeePerGas: 2_000_000_000n },
+      { type: 'legacy', to: bob, nonce: 1, gasPrice: 2_000_000_000n },
+      {
+        type: 'eip1559',
+        to: token,
+        nonce: 2,
+        maxFeePerGas: 2_000_000_000n,
+        gas: 60_000n,
+        data: '0xa9059cbb',
+        logs: [
+          {
+            address: token,
+            topics: [keccak256('0x01'), pad(alice)],
+            data: encodeAbiParameters([{ type: 'uint256' }], [5n]),
+          },
+        ],
+      },
+    ],
+  });
+
+describe('Synthetic Chain', () => {
+  it('should serve a block whose header hashes to its hash', async () => {
+    const { publicClient, block } = await createChain();
+    const inputs = await getBlockHeader(publicClient, {});
+
+    expect(block.number).toBe('0x1312d00');
+    expect(verifyHeaderInputs(inputs).valid).toBe(true);
+
+    // A chain shorter than its max length is padded with empty headers.
+    const chain = toInputMap(
+      await getBlockHeaderChain(publicClient, { fromBlock: 20_000_000n })
+    );
+    expect(chain.chain_length).toBe(toHex(1));
+    expect(chain.block_header_rlps).toHaveLength(8);
+  });
+
+  it('should serve account and storage proofs', async () => {
+    const { publicClient } = await createChain();
+
+    const account = await getAccountProof(publicClient, {
+      address: alice,
+      verify: true,
+    });
+    expect(verifyAccountInputs(account).valid).toBe(true);
+
+    const storage = await getStorageProof(publicClient, {
+      address: token,
+      slot: pad('0x1'),
+      verify: true,
+    });
+    expect(verifyStorageInputs(storage).valid).toBe(true);
+  });
+
+  it('should serve account and storage exclusion proofs', async () => {
+    const { publicClient } = await createChain();
+
+    const account = await getAccountExclusionProof(publicClient, {
+      address: bob,
+      verify: true,
+    });
+    expect(verifyAccountExclusionInputs(account).valid).toBe(true);
+    await expect(
+      getAccountProof(publicClient, { address: bob })
+    ).rejects.toThrow('Account Proof verification failed');
+    await expect(
+      getAccountExclusionProof(publicClient, { address: alice })
+    ).rejects.toThrow('Account exists');
+
+    for (const slot of [pad('0x2'), pad('0x3')]) {
+      const storage = await getStorageExclusionProof(publicClient, {
+        address: token,
+        slot,
+        verify: true,
+      });
+      expect(verifyStorageExclusionInputs(storage).valid).toBe(true);
+    }
+    await expect(
+      getStorageExclusionProof(publicClient, {
+        address: token,
+        slot: pad('0x1'),
+      })
+    ).rejects.toThrow('Storage slot is not empty');
+
+    // Alice has no storage, her proof is empty and checked against the empty trie root.
+    const empty = await getStorageExclusionProof(publicClient, {
+      address: alice,
+      slot: pad('0x1'),
+      verify: true,
+    });
+    const report = verifyStorageExclusionInputs(empty);
+    expect(report.valid).toBe(true);
+    expect(report.checks.at(-1)?.check).toBe('storage_proof.empty_trie');
+
+    const tampered = verifyStorageExclusionInputs({
+      ...empty,
+      storage_root: account.state_root,
+    });
+    expect(tampered.checks.at(-1)).toMatchObject({
+      check: 'storage_proof.empty_trie',
+      message: 'Expected an empty trie for a proof of depth 0',
+    });
+
+    // An empty proof is only absence when the account storage root is the empty trie.
+    const proof = await publicClient.getProof({
+      address: alice,
+      storageKeys: [pad('0x1')],
+    });
+    const { storageHash } = await publicClient.getProof({
+      address: token,
+      storageKeys: [],
+    });
+    await expect(
+      buildStorageExclusionProof({
+        proof: { ...proof, storageHash },
+        slot: pad('0x1'),
+      })
+    ).rejects.toThrow(
+      `Storage Proof is empty but the storage root (${storageHash}) is not the empty trie root`
+    );
+  });
+
+  it('should serve account code proofs', async () => {
+    // A PUSH32 whose data holds `PUSH4 0xa9059cbb`, then a dispatcher matching `transfer`.
+    const code: Hex = `0x7f${'00'.repeat(27)}63a9059cbb60003560e01c8063a9059cbb14`;
+    const { publicClient } = await createSyntheticChain({
+      accounts: [{ address: alice }, { address: token, code }],
+    });
+
+    const inputs = await getAccountCodeProof(publicClient, {
+      address: token,
+      range: { offset: 41, length: 4 },
+      selector: '0xa9059cbb',
+      verify: true,
+    });
+    expect(verifyAccountCodeInputs(inputs).valid).toBe(true);
+
+    // The PUSH4 byte inside the PUSH32 data pushes the same selector but is not an instruction.
+    const tampered = toInputMap(inputs);
+    expect(tampered.code_selector).toMatchObject({ offset: toHex(40) });
+    (tampered.code_selector as Record<string, unknown>).offset = 28;
+    expect(verifyAccountCodeInputs(tampered).checks.at(-1)).toMatchObject({
+      check: 'code_selector',
+      message: 'Selector: Not at an instruction boundary',
+    });
+
+    await expect(
+      getAccountCodeProof(publicClient, {
+        address: token,
+        selector: '0x12345678',
+      })
+    ).rejects.toThrow('Selector not found in code');
+
+    // The code hash comes from the proven account, not the one the RPC reports.
+    const block = await publicClient.getBlock();
+    const proof = await publicClient.getProof({
+      address: token,
+      storageKeys: [],
+    });
+    await expect(
+      buildAccountCodeProof({
+        block,
+        proof: { ...proof, codeHash: keccak256('0x6000') },
+        code: '0x6000',
+      })
+    ).rejects.toThrow('Code does not match account code hash');
+    await expect(
+      getAccountCodeProof(publicClient, { address: token, maxCodeLength: 32 })
+    ).rejects.toThrow('Code is longer than 32 bytes');
+    await expect(
+      getAccountCodeProof(publicClient, { address: alice })
+    ).rejects.toThrow('Account has no code');
+  });
+
+  it('should find selectors pushed without their leading zero bytes', async () => {
+    // `PUSH3 0x059cbb` pushes the selector 0x00059cbb.
+    const code: Hex = '0x60003560e01c8062059cbb14';
+    const { publicClient } = await createSyntheticChain({
+      accounts: [{ address: token, code }],
+    });
+
+    const inputs = await getAccountCodeProof(publicClient, {
+      address: token,
+      selector: '0x00059cbb',
+      verify: true,
+    });
+    expect(toInputMap(inputs).code_selector).toMatchObject({
+      offset: toHex(7),
+    });
+    expect(verifyAccountCodeInputs(inputs).valid).toBe(true);
+
+    const tampered = toInputMap(inputs);
+    (tampered.code_selector as Record<string, unknown>).selector = Array.from(
+      toBytes('0xa9059cbb')
+    );
+    expect(verifyAccountCodeInputs(tampered).checks.at(-1)).toMatchObject({
+      check: 'code_selector',
+      message: 'Selector: Does not match the code',
+    });
+  });
+
+  it('should serve transaction and receipt proofs', async () => {
+    const { publicClient, transactionHashes } = await createChain();
+
+    for (const hash of transactionHashes) {
+      const transaction = await getTransactionProof(publicClient, {
+        hash,
+        verify: true,
+      });
+      expect(verifyTransactionInputs(transaction).valid).toBe(true);
+    }
+
+    const receipt = await getReceiptProof(publicClient, {
+      hash: transactionHashes[2] as `0x${string}`,
+      log: { index: 0 },
+      maxEncodedReceiptLength: 512,
+      maxLeafLength: 512,
+      verify: true,
+    });
+    const report = verifyReceiptInputs(receipt);
+    expect(report.valid).toBe(true);
+    expect(report.checks.at(-1)?.check).toBe('log');
+  });
+
+  it('should select receipt logs by index, address or topics', async () => {
+    const transfer = keccak256(toBytes('Transfer(address,address,uint256)'));
+    const approval = keccak256(toBytes('Approval(address,address,uint256)'));
+    const { publicClient, transactionHashes } = await createSyntheticChain({
+      transactions: [
+        {
+          type: 'eip1559',
+          to: token,
+          gas: 90_000n,
+          logs: [
+            { address: token, topics: [transfer, pad(alice)], data: '0x' },
+            { address: bob, topics: [transfer, pad(bob)], data: '0x' },
+            { address: token, topics: [approval, pad(bob)], data: '0x' },
+          ],
+        },
+      ],
+    });
+    const hash = transactionHashes[0] as Hex;
+    const sizes = { maxEncodedReceiptLength: 1024, maxLeafLength: 1024 };
+
+    const filters: [ReceiptLogFilter, number][] = [
+      [{ index: 1 }, 1],
+      [{ address: bob }, 1],
+      [{ topics: [approval] }, 2],
+      [{ topics: [null, pad(bob)] }, 1],
+      [{ address: token, topics: [null, pad(bob)] }, 2],
+    ];
+    for (const [log, logIndex] of filters) {
+      const receipt = await getReceiptProof(publicClient, {
+        hash,
+        log,
+        ...sizes,
+      });
+      expect(toInputMap(receipt).log_index).toBe(toHex(logIndex));
+      expect(verifyReceiptInputs(receipt).valid).toBe(true);
+    }
+
+    await expect(
+      getReceiptProof(publicClient, { hash, log: { index: 3 }, ...sizes })
+    ).rejects.toThrow('Log index (3) out of range, receipt has 3 logs');
+    await expect(
+      getReceiptProof(publicClient, {
+        hash,
+        log: { address: bob, topics: [approval] },
+        ...sizes,
+      })
+    ).rejects.toThrow('No log in receipt matches the provided filter');
+
+    // `verify_receipt_log` decodes at most `maxLogs` logs.
+    await expect(
+      getReceiptProof(publicClient, {
+        hash,
+        log: { index: 2 },
+        maxLogs: 2,
+        ...sizes,
+      })
+    ).rejects.toThrow('Log index (2) exceeds max logs (2)');
+    await expect(
+      getReceiptProof(publicClient, {
+        hash,
+        log: { index: 1 },
+        maxLogs: 2,
+        ...sizes,
+      })
+    ).rejects.toThrow('Receipt logs count (3) exceeds max logs (2)');
+  });
+
+  it('should batch transaction and receipt proofs from one block', async () => {
+    const { publicClient, transactionHashes } = await createChain();
+    const [first, second, third] = transactionHashes as Hex[];
+
+    const transactions = await getTransactionProofs(publicClient, {
+      transactionIndices: [1],
+      hashes: [first as Hex],
+      verify: true,
+    });
+    expect(toInputMap(transactions)).toEqual(
+      toInputMap([
+        await getTransactionProof(publicClient, { hash: second as Hex }),
+        await getTransactionProof(publicClient, { hash: first as Hex }),
+      ])
+    );
+    expect(
+      verifyTransactionProofsInputs(combineTransactionProofs(transactions))
+        .valid
+    ).toBe(true);
+
+    const receipts = await getReceiptProofs(publicClient, {
+      hashes: [third as Hex, first as Hex],
+      maxEncodedReceiptLength: 512,
+      maxLeafLength: 512,
+      verify: true,
+    });
+    const combined = combineReceiptProofs(receipts);
+    expect(verifyReceiptProofsInputs(combined).valid).toBe(true);
+
+    const tampered = verifyReceiptProofsInputs({
+      ...combined,
+      transaction_indices: [...combined.transaction_indices].reverse(),
+    });
+    expect(tampered.checks.at(-1)).toMatchObject({
+      check: '0.transaction_index',
+      passed: false,
+    });
+
+    await expect(
+      getReceiptProofs(publicClient, { hashes: [keccak256('0x')] })
+    ).rejects.toThrow('Transaction Receipt not found');
+    await expect(
+      getTransactionProofs(publicClient, { transactionIndices: [] })
+    ).rejects.toThrow('At least one transaction index is required');
+  });
+
+  it('should serve type-specific transaction fields', async () => {
+    const { publicClient, transactionHashes } = await createSyntheticChain({
+      transactions: [
+        { type: 'legacy', to: bob, gasPrice: 2_000_000_000n },
+        {
+          type: 'eip2930',
+          to: token,
+          nonce: 1,
+          gasPrice: 2_000_000_000n,
+          accessList: [{ address: token, storageKeys: [pad('0x1')] }],
+        },
+        {
+          type: 'eip7702',
+          to: alice,
+          nonce: 2,
+          maxFeePerGas: 2_000_000_000n,
+          maxPriorityFeePerGas: 1n,
+          authorizationList: [
+            {
+              chainId: 1,
+              address: token,
+              nonce: 3,
+              yParity: 1,
+              r: keccak256('0x02'),
+              s: keccak256('0x03'),
+            },
+          ],
+        },
+      ],
+    });
+
+    for (const hash of transactionHashes) {
+      const transaction = await getTransactionProof(publicClient, {
+        hash,
+        fields: true,
+        sender: true,
+        verify: true,
+      });
+      const report = verifyTransactionInputs(transaction);
+      expect(report.valid).toBe(true);
+      expect(report.checks.map((c) => c.check)).toContain('transaction_fields');
+    }
+
+    const legacy = await getTransactionProof(publicClient, {
+      hash: transactionHashes[0] as `0x${string}`,
+      fields: true,
+    });
+    const report = verifyTransactionInputs({
+      ...legacy,
+      transaction_fields: { ...legacy.transaction_fields, chain_id: 5 },
+    });
+    expect(report.checks.at(-1)).toMatchObject({
+      check: 'transaction_fields',
+      message: 'Chain id: Does not match V',
+    });
+
+    await expect(
+      getTransactionProof(publicClient, {
+        hash: transactionHashes[1] as `0x${string}`,
+        fields: true,
+        maxAccessListLength: 0,
+      })
+    ).rejects.toThrow('Access list length exceeds max access list length');
+  });
+
+  it('should recover transaction senders', async () => {
+    const { publicClient, transactionHashes } = await createChain();
+
+    for (const hash of transactionHashes) {
+      const transaction = await getTransactionProof(publicClient, {
+        hash,
+        sender: true,
+      });
+      const report = verifyTransactionInputs(transaction);
+      expect(report.valid).toBe(true);
+      expect(report.checks.map((c) => c.check)).toContain('transaction_sender');
+    }
+
+    const transaction = await getTransactionProof(publicClient, {
+      hash: transactionHashes[1] as `0x${string}`,
+      sender: true,
+    });
+    const report = verifyTransactionInputs({
+      ...transaction,
+      transaction_sender: {
+        ...transaction.transaction_sender,
+        signing_hash: Array.from(toBytes(keccak256('0x'))),
+      },
+    });
+    expect(report.checks.at(-1)).toMatchObject({
+      check: 'transaction_sender',
+      message: 'Signing hash: Does not match the transaction',
+    });
+  });
+
+  it('should serve withdrawal proofs', async () => {
+    const { publicClient } = await createSyntheticChain({
+      withdrawals: Array.from({ length: 16 }, (_, i) => ({
+        index: 40_000_000n + BigInt(i),
+        validatorIndex: 1_000_000n + BigInt(i),
+        address: i % 2 === 0 ? alice : bob,
+        amount: 18_000_000n + BigInt(i),
+      })),
+    });
+
+    for (const withdrawalIndex of [0, 1, 15]) {
+      const inputs = await getWithdrawalProof(publicClient, {
+        withdrawalIndex,
+        verify: true,
+      });
+      expect(verifyWithdrawalInputs(inputs).valid).toBe(true);
+    }
+
+    const inputs = await getWithdrawalProof(publicClient, {
+      withdrawalIndex: 3,
+    });
+    const tampered = toInputMap(inputs);
+    (tampered.withdrawal as Record<string, unknown>).amount =
+      toHex(18_000_004n);
+    expect(verifyWithdrawalInputs(tampered).checks.at(-1)).toMatchObject({
+      check: 'withdrawal',
+      message: 'Amount: Invalid RLP value',
+    });
+
+    await expect(
+      getWithdrawalProof(publicClient, { withdrawalIndex: 16 })
+    ).rejects.toThrow('Withdrawal not found');
+
+    const london = await createSyntheticChain({
+      blockNumber: 15_000_000n,
+      timestamp: 1_655_000_000n,
+    });
+    await expect(
+      getWithdrawalProof(london.publicClient, { withdrawalIndex: 0 })
+    ).rejects.toThrow('Block has no withdrawals, it predates Shanghai');
+  });
+
+  it('should prove storage slots against the proven account storage root', async () => {
+    const { publicClient } = await createChain();
+    const slots = [pad('0x1')];
+
+    const inputs = await getStorageProofs(publicClient, {
+      address: token,
+      slots,
+      verify: true,
+    });
+    expect(verifyStorageProofsInputs(inputs).valid).toBe(true);
+
+    // Proofs of another account's storage, consistent with the reported storage hash.
+    const block = await publicClient.getBlock();
+    const proof = await publicClient.getProof({
+      address: token,
+      storageKeys: slots,
+    });
+    const { storageHash } = await publicClient.getProof({
+      address: alice,
+      storageKeys: [],
+    });
+    await expect(
+      buildStorageProofs({ block, proof: { ...proof, storageHash }, slots })
+    ).rejects.toThrow(
+      `Storage hash (${storageHash}) does not match the proven account storage root (${proof.storageHash})`
+    );
+  });
+
+  it('should build deep storage tries on demand', async () => {
+    const storage = Object.fromEntries(
+      Array.from({ length: 512 }, (_, i) => [pad(toHex(i)), pad('0x01')])
+    );
+    const { publicClient } = await createSyntheticChain({
+      accounts: [{ address: token, storage }],
+    });
+
+    const proof = await publicClient.getProof({
+      address: token,
+      storageKeys: [pad('0x7')],
+    });
+    expect(proof.storageProof[0]?.proof.length).toBeGreaterThan(2);
+
+    const inputs = await getStorageProof(publicClient, {
+      address: token,
+      slot: pad('0x7'),
+      verify: true,
+    });
+    expect(verifyStorageInputs(inputs).valid).toBe(true);
+
+    const exclusion = await getStorageExclusionProof(publicClient, {
+      address: token,
+      slot: pad('0x1000'),
+      verify: true,
+    });
+    const report = verifyStorageExclusionInputs(exclusion);
+    expect(report.valid).toBe(true);
+    expect(report.checks.at(-1)?.check).toBe('storage_proof.branch_exclusion');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+
+import { readFileSync } from 'node:fs';
+import {
+  parseProverToml,
+  toProverToml,
+  verifyAccountInputs,
+  verifyHeaderInputs,
+  verifyReceiptInputs,
+  verifyStorageInputs,
+  verifyTransactionInputs,
+} from '../src';
+
+const readExample = (name: string) =>
+  readFileSync(
+    new URL(`../examples/${name}/Prover.toml`, import.meta.url),
+    'utf8'
+  );
+
+describe('Prover.toml', () => {
+  it('should serialize nested structs, options and bounded vecs', () => {
+    const toml = toProverToml({
+      chain_id: '1',
+      header: {
+        number: '0x10',
+        withdrawals_root: { _is_some: false, _value: ['0', '0'] },
+        rlp: { storage: ['1', '2', '0'], len: 2 },
+      },
+      proofs: [
+        { key: ['1'], proof: { depth: '1' } },
+        { key: ['2'], proof: { depth: '2' } },
+      ],
+      nodes: [
+        ['1', '2'],
+        ['3', '4'],
+      ],
+    });
+
+    expect(toml).toBe(
+      [
+        'chain_id = "1"',
+        'nodes = [["1","2"],["3","4"]]',
+        '[header]',
+        'number = "0x10"',
+        '[header.withdrawals_root]',
+        '_is_some = false',
+        '_value = ["0","0"]',
+        '[header.rlp]',
+        'storage = ["1","2","0"]',
+        'len = 2',
+        '[[proofs]]',
+        'key = ["1"]',
+        '[proofs.proof]',
+        'depth = "1"',
+        '[[proofs]]',
+        'key = ["2"]',
+        '[proofs.proof]',
+        'depth = "2"',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should parse hand written files', () => {
+    const inputs = parseProverToml(`
+      # comment
+      a = "1" # trailing comment
+      b.c = [
+        "2", # inline
+        "3",
+      ]
+      d = { e = true, f = 4 }
+      [[g]]
+      h = "5"
+      [[g]]
+      h = "6"
+    `);
+
+    expect(inputs).toEqual({
+      a: '1',
+      b: { c: ['2', '3'] },
+      d: { e: true, f: 4 },
+      g: [{ h: '5' }, { h: '6' }],
+    });
+  });
+
+  it('should keep integers past the safe range as strings', () => {
+    expect(
+      parseProverToml(`
+        a = 9007199254740990
+        b = 9007199254740991
+        c = 18_446_744_073_709_551_615
+        d = 0xffffffffffffffffffff
+      `)
+    ).toEqual({
+      a: 9007199254740990,
+      b: '9007199254740991',
+      c: '18446744073709551615',
+      d: '0xffffffffffffffffffff',
+    });
+  });
+
+  it('should report the line of invalid statements', () => {
+    expect(() => parseProverToml('a = "1"\nb = [1, 2')).toThrow(
+      'Invalid Prover.toml at line 2: unterminated value'
+    );
+    expect(() => parseProverToml('a = "1"\nb = 1 2')).toThrow(
+      'Invalid Prover.toml at line 2: unexpected trailing data'
+    );
+  });
+
+  it('should round trip the example circuit inputs', () => {
+    const examples = [
+      ['verify_account', verifyAccountInputs],
+      ['verify_storage', verifyStorageInputs],
+      ['verify_header', verifyHeaderInputs],
+      ['verify_transaction', verifyTransactionInputs],
+      ['verify_receipt', verifyReceiptInputs],
+    ] as const;
+
+    for (const [name, verify] of examples) {
+      const toml = readExample(name);
+      const inputs = parseProverToml(toml);
+
+      expect(toProverToml(inputs)).toBe(toml);
+      expect(verify(inputs).valid).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+
+import { mkdtempSync, readFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createPublicClient, custom } from 'viem';
+import { mainnet } from 'viem/chains';
+import { fixtureTransport } from '../src';
+
+const block = {
+  number: '0x10',
+  hash: `0x${'11'.repeat(32)}`,
+};
+
+const createUpstream = () => {
+  const calls: string[] = [];
+  const transport = custom({
+    async request({ method, params }) {
+      calls.push(method);
+      if (method === 'eth_getBlockByNumber') {
+        // Answers later requests first to interleave concurrent recordings.
+        await new Promise((resolve) =>
+          setTimeout(resolve, params[0] === '0x10' ? 10 : 0)
+        );
+        return block;
+      }
+      if (method === 'eth_blockNumber') return '0x10';
+      throw new Error(`Unexpected method ${method}`);
+    },
+  });
+  return { calls, transport };
+};
+
+const fixturePath = () =>
+  path.join(mkdtempSync(path.join(os.tmpdir(), 'fixtures-')), 'rpc.json');
+
+describe('Fixture Transport', () => {
+  it('should record responses and replay them without the upstream', async () => {
+    const file = fixturePath();
+    const upstream = createUpstream();
+
+    const recorder = createPublicClient({
+      chain: mainnet,
+      transport: fixtureTransport({
+        path: file,
+        mode: 'record',
+        transport: upstream.transport,
+      }),
+    });
+    await recorder.request({
+      method: 'eth_getBlockByNumber',
+      params: ['0x10', false],
+    });
+
+    expect(upstream.calls).toEqual(['eth_getBlockByNumber']);
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual({
+      eth_getBlockByNumber: { '["0x10",false]': block },
+    });
+
+    const replayer = createPublicClient({
+      chain: mainnet,
+      transport: fixtureTransport({ path: file }),
+    });
+    const replayed = await replayer.request({
+      method: 'eth_getBlockByNumber',
+      params: ['0x10', false],
+    });
+
+    expect(replayed).toEqual(block);
+    expect(upstream.calls).toHaveLength(1);
+  });
+
+  it('should only record missing responses in auto mode', async () => {
+    const file = fixturePath();
+    const upstream = createUpstream();
+    const client = createPublicClient({
+      chain: mainnet,
+      transport: fixtureTransport({
+        path: file,
+        mode: 'auto',
+        transport: upstream.transport,
+      }),
+    });
+
+    for (let i = 0; i < 2; i++) {
+      await client.request({
+        method: 'eth_getBlockByNumber',
+        params: ['0x10', false],
+      });
+    }
+    await client.request({ method: 'eth_blockNumber' });
+
+    expect(upstream.calls).toEqual(['eth_getBlockByNumber', 'eth_blockNumber']);
+    expect(Object.keys(JSON.parse(readFileSync(file, 'utf8')))).toEqual([
+      'eth_getBlockByNumber',
+    ]);
+  });
+
+  it('should throw on requests that were not recorded', async () => {
+    const client = createPublicClient({
+      chain: mainnet,
+      transport: fixtureTransport({ path: fixturePath() }),
+    });
+
+    await expect(
+      client.request({
+        method: 'eth_getBlockByNumber',
+        params: ['0x10', false],
+      })
+    ).rejects.toThrow(
+      'No recorded response for eth_getBlockByNumber with ["0x10",false]'
+    );
+  });
+
+  it('should keep every response recorded concurrently', async () => {
+    const file = fixturePath();
+    const client = createPublicClient({
+      chain: mainnet,
+      transport: fixtureTransport({
+        path: file,
+        mode: 'record',
+        transport: createUpstream().transport,
+      }),
+    });
+
+    await Promise.all(
+      (['0x10', '0x11'] as const).map((number) =>
+        client.request({
+          method: 'eth_getBlockByNumber',
+          params: [number, false],
+        })
+      )
+    );
+
+    expect(
+      Object.keys(JSON.parse(readFileSync(file, 'utf8')).eth_getBlockByNumber)
+    ).toEqual(['["0x11",false]', '["0x10",false]']);
+  });
+
+  it('should never hit the upstream in replay mode', async () => {
+    const upstream = createUpstream();
+    const client = createPublicClient({
+      chain: mainnet,
+      transport: fixtureTransport({
+        path: fixturePath(),
+        mode: 'replay',
+        transport: upstream.transport,
+      }),
+    });
+
+    await expect(
+      client.request({
+        method: 'eth_getBlockByNumber',
+        params: ['0x10', false],
+      })
+    ).rejects.toThrow('No recorded response');
+    expect(upstream.calls).toEqual([]);
+  });
+});
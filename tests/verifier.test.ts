@@ -0,0 +1,276 @@
+import { describe, expect, it } from 'vitest';
+
+import { Trie } from '@ethereumjs/trie';
+import {
+  type Hex,
+  concatBytes,
+  fromRlp,
+  hexToBytes,
+  keccak256,
+  serializeTransaction,
+  toHex,
+  toRlp,
+} from 'viem';
+import {
+  MAX_NODE_LENGTH,
+  encodeIndex,
+  leftPad,
+  rightPad,
+  verifyAccountInputs,
+  verifyHeaderInputs,
+  verifyReceiptInputs,
+  verifyTransactionInputs,
+} from '../src';
+
+// Mainnet block 22_308_227 (Cancun).
+const CANCUN_HEADER_RLP: Hex =
+  '0xf9025ba0c78b0e9d7c6b3cac0dac5a928e461f7679db8f416ce3966075c5ae424b301a46a01dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d493479495222290dd7278aa3ddd389cc1e1d165cc4bafe5a084045343c0daf1a0ffb5c4dce80b99e6903cac68235c4efd4ce32ebccaef6815a0bf29a54adbbb671f03d878a1e1052cd7eb85ff98fb5141e72c8b700f5e386ccfa08b4b15768b2c5053f4ad511e238d4f9df045d5673d9e0cef34281a67e68cff98b90100a2a1c80a6012c9a03bb010e5898810ab59536f231c49400a24a9380e3314972304087520388b0784e630daf1806725882aa124549d122bfa23d03369772f78c7aa62929b84948a0afec26c9b254a68f885e110b112f22828213d3c54b07e860161110485067f88e4e08cddf8490bfdadf6aa0ef6545904a42117209fae5e6279a8a883d8000606f17d593be41164077352b0034dd50d19786c3428415af61db79b2a5e7c091c3ca1e77654c298028cca141a9ac5ea53318306504e140c048872ea14dd6a1c0e18ea013f38b30e0f48b5468428531f2008106146a062224030fb44722fe322b01501a0451e88e99c02463dafd011690b36c0601b86182cc9365b808401546583840225510083ca04b28468048aef8f6265617665726275696c642e6f7267a07f12cb015f30c8bfd11f43bab02c05a26e1066ea85458441769ddd544d96d4b88800000000000000008412ea03c0a0273d6f9ba6eef347bfd5dccfbed926c6e4636ed11359e814ea8d92d171eb9b128306000084023e0000a0e8f234ed3f3fd6f7a859dc92d57807705f0e888d3f919248bdff53f377d0e5e3';
+
+const alice = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const bob = '0x225f137127d9067788314bc7fcc1f36746a3c3B5';
+
+const bytes = (data: Hex) => Array.from(hexToBytes(data));
+
+const boundedVec = (data: number[], maxLength: number) => ({
+  storage: rightPad(data, maxLength),
+  len: data.length,
+});
+
+const buildProofInput = async (
+  trie: Trie,
+  key: Uint8Array,
+  sizes: { maxKeyLength: number; maxValueLength: number; maxLeafLength: number }
+) => {
+  const proof = await trie.createProof(key);
+  const value = (await trie.get(key)) ?? new Uint8Array(0);
+  const nodes = proof.slice(0, -1).map((n) => rightPad(n, MAX_NODE_LENGTH));
+
+  while (nodes.length !== 4) {
+    nodes.push(new Array<number>(MAX_NODE_LENGTH).fill(0));
+  }
+
+  return {
+    key: leftPad(key, sizes.maxKeyLength),
+    value: leftPad(value, sizes.maxValueLength),
+    proof: {
+      nodes,
+      leaf: rightPad(proof.at(-1) ?? new Uint8Array(0), sizes.maxLeafLength),
+      depth: proof.length,
+    },
+  };
+};
+
+describe('Circuit Verifiers', () => {
+  it('should verify account inputs', async () => {
+    const trie = new Trie();
+    const storageHash = keccak256('0x01');
+    const codeHash = keccak256('0x02');
+    for (const [address, balance] of [
+      [alice, '0x0de0b6b3a7640000'],
+      [bob, '0x'],
+    ] as const) {
+      await trie.put(
+        keccak256(address, 'bytes'),
+        toRlp(['0x05', balance, storageHash, codeHash], 'bytes')
+      );
+    }
+
+    const inputs = {
+      account: {
+        address: bytes(alice),
+        balance: '0x0de0b6b3a7640000',
+        code_hash: bytes(codeHash),
+        nonce: '0x05',
+        storage_hash: bytes(storageHash),
+      },
+      account_proof: await buildProofInput(trie, keccak256(alice, 'bytes'), {
+        maxKeyLength: 66,
+        maxValueLength: 110,
+        maxLeafLength: 148,
+      }),
+      state_root: Array.from(trie.root()),
+    };
+
+    const report = verifyAccountInputs(inputs);
+    expect(report.valid).toBe(true);
+    expect(report.checks.at(-1)?.check).toBe('account_proof.leaf_value');
+
+    inputs.account.balance = '0x01';
+    expect(verifyAccountInputs(inputs).checks.at(-1)).toEqual({
+      check: 'account',
+      passed: false,
+      message: 'Balance: Invalid RLP length',
+    });
+
+    inputs.account.address = bytes(bob);
+    expect(verifyAccountInputs(inputs).checks.at(-1)).toMatchObject({
+      check: 'address',
+      message: 'Address mismatch',
+    });
+  });
+
+  it('should verify header inputs', () => {
+    const fields = fromRlp(CANCUN_HEADER_RLP, 'bytes') as Uint8Array[];
+    const field = (index: number) => Array.from(fields[index] ?? []);
+    const inputs = {
+      chain_id: 1,
+      block_header_partial: {
+        number: toHex(22_308_227),
+        hash: bytes(keccak256(CANCUN_HEADER_RLP)),
+        state_root: field(3),
+        transactions_root: field(4),
+        receipts_root: field(5),
+        withdrawals_root: { _is_some: true, _value: field(16) },
+      },
+      block_header_rlp: boundedVec(bytes(CANCUN_HEADER_RLP), 742),
+    };
+
+    expect(verifyHeaderInputs(inputs).valid).toBe(true);
+
+    inputs.block_header_partial.hash = field(0);
+    expect(verifyHeaderInputs(inputs).checks.at(-1)).toMatchObject({
+      check: 'header_hash',
+      message: 'Block Hash does not Match',
+    });
+
+    inputs.chain_id = 10;
+    expect(verifyHeaderInputs(inputs).checks.at(-1)).toMatchObject({
+      check: 'header',
+      message: 'Unsupported chain ID',
+    });
+  });
+
+  it('should verify transaction inputs', async () => {
+    const signature = {
+      r: `0x${'11'.repeat(32)}`,
+      s: `0x${'22'.repeat(32)}`,
+      yParity: 1,
+    } as const;
+    const trie = new Trie();
+    for (let i = 0; i < 3; i++) {
+      const tx = serializeTransaction(
+        {
+          type: 'eip1559',
+          chainId: 1,
+          nonce: i,
+          gas: 21_000n,
+          maxFeePerGas: 2n,
+          maxPriorityFeePerGas: 1n,
+          to: bob,
+          value: 10n ** 20n,
+          data: '0xdeadbeef',
+        },
+        signature
+      );
+      await trie.put(encodeIndex(i), hexToBytes(tx));
+    }
+
+    const inputs = {
+      transaction_index: 1,
+      transaction_type: 2,
+      transaction_proof: await buildProofInput(trie, encodeIndex(1), {
+        maxKeyLength: 8,
+        maxValueLength: 525,
+        maxLeafLength: 256,
+      }),
+      transaction_root: Array.from(trie.root()),
+      transaction: {
+        nonce: 1,
+        gas_limit: toHex(21_000),
+        to: { _is_some: true, _value: bytes(bob) },
+        value: {
+          lo: toHex(10n ** 20n % 2n ** 64n),
+          hi: toHex((10n ** 20n) >> 64n),
+        },
+        data: boundedVec(bytes('0xdeadbeef'), 256),
+        v: 1,
+        r: bytes(signature.r),
+        s: bytes(signature.s),
+      },
+    };
+
+    const report = verifyTransactionInputs(inputs);
+    expect(report.valid).toBe(true);
+    expect(report.checks.map((c) => c.check).slice(0, 3)).toEqual([
+      'inputs',
+      'transaction_index',
+      'transaction',
+    ]);
+
+    inputs.transaction.nonce = 2;
+    expect(verifyTransactionInputs(inputs).checks.at(-1)).toMatchObject({
+      check: 'transaction',
+      message: 'Nonce: Invalid RLP value',
+    });
+
+    inputs.transaction_index = 2;
+    expect(verifyTransactionInputs(inputs).checks.at(-1)).toMatchObject({
+      check: 'transaction_index',
+      message: 'Key does not match RLP -encoded transaction index',
+    });
+  });
+
+  it('should verify receipt inputs and their log', async () => {
+    const bloom = toHex(new Uint8Array(256));
+    const topics = [keccak256('0x03'), keccak256('0x04')];
+    const log: [Hex, Hex[], Hex] = [bob, topics, '0xcafe'];
+    const trie = new Trie();
+    for (let i = 0; i < 3; i++) {
+      const receipt = toRlp(
+        ['0x01', toHex(21_000 * (i + 1)), bloom, [log]],
+        'bytes'
+      );
+      await trie.put(
+        encodeIndex(i),
+        concatBytes([hexToBytes('0x02'), receipt])
+      );
+    }
+
+    const inputs = {
+      block_number: 20_000_000,
+      transaction_index: 2,
+      transaction_type: 2,
+      receipt: {
+        state_root: { _is_some: false, _value: new Array(32).fill(0) },
+        status: { _is_some: true, _value: 1 },
+        cumulative_gas_used: 63_000,
+        logs_bloom: bytes(bloom),
+      },
+      receipt_proof: await buildProofInput(trie, encodeIndex(2), {
+        maxKeyLength: 8,
+        maxValueLength: 512,
+        maxLeafLength: 512,
+      }),
+      receipt_root: Array.from(trie.root()),
+      log_index: 0,
+      log: {
+        address: bytes(bob),
+        topics: {
+          storage: [
+            ...topics.map(bytes),
+            ...new Array(2).fill(new Array(32).fill(0)),
+          ],
+          len: topics.length,
+        },
+        data: boundedVec(bytes('0xcafe'), 256),
+      },
+    };
+
+    const report = verifyReceiptInputs(inputs);
+    expect(report.valid).toBe(true);
+    expect(report.checks.at(-1)?.check).toBe('log');
+
+    inputs.log.data = boundedVec(bytes('0xbeef'), 256);
+    expect(verifyReceiptInputs(inputs).checks.at(-1)).toEqual({
+      check: 'log',
+      passed: false,
+      message: 'Log does not match the receipt',
+    });
+
+    inputs.receipt.cumulative_gas_used = 42_000;
+    expect(verifyReceiptInputs(inputs).checks.at(-1)).toMatchObject({
+      check: 'receipt',
+      message: 'Cumulative gas used: Invalid RLP value',
+    });
+  });
+});